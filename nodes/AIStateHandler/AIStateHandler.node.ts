@@ -3,12 +3,61 @@ import type {
 	INodeExecutionData,
 	INodeType,
 	INodeTypeDescription,
-	IDataObject,
 } from 'n8n-workflow';
 import { NodeConnectionTypes, NodeOperationError } from 'n8n-workflow';
-import { RunnableSequence } from '@langchain/core/runnables';
-import { ChatPromptTemplate } from '@langchain/core/prompts';
-import { StringOutputParser } from '@langchain/core/output_parsers';
+import type { StateStore, StateWriteConflict } from '../shared/StateStorage';
+import { commitState, getStateStore, stateStorageProperties } from '../shared/StateStorage';
+import { getHistoryArchiveSessionId, HISTORY_ARCHIVE_SESSION_PREFIX } from '../shared/ConversationHistory';
+import {
+	formatStateModelFields,
+	getChangedModelPaths,
+	normalizeStateToModel,
+} from '../shared/StateModel';
+import { getNestedValue } from '../shared/StatePaths';
+import type { JsonSchema, StateValidationError } from '../shared/StateSchema';
+import {
+	applyStateSchema,
+	enforceStateSchema,
+	findInvalidSchemaPattern,
+	isJsonSchemaModel,
+	schemaToStateModel,
+} from '../shared/StateSchema';
+import {
+	getStateHistoryHook,
+	restoreStateFromHistory,
+	stateHistoryProperties,
+	untrackedStateKeys,
+} from '../shared/StateHistory';
+import type { JsonStageAttempt } from '../shared/StructuredOutput';
+import {
+	buildStageOutputSchema,
+	buildStateOutputSchema,
+	getJsonRepairSettings,
+	invokeJsonStage,
+	jsonRepairProperties,
+} from '../shared/StructuredOutput';
+import { getModelPriceTable, UsageTracker, usageProperties } from '../shared/UsageTracker';
+import { getLanguageModels, stateExtractionLlmInput } from '../shared/LanguageModels';
+import { advancedPromptsProperty, getStagePrompt, stateHandlerPromptStages } from '../shared/PromptOverrides';
+import { attachImages, getImageAttachments, imageInputProperties } from '../shared/ImageInput';
+import {
+	getToolRunSettings,
+	readPostToolResult,
+	TOOL_ROUND_INSTRUCTIONS,
+	toolRunnerProperties,
+} from '../shared/ToolRunner';
+import { describeTools } from '../shared/ToolSchemas';
+import { getToolResultMappings, toolResultMappingProperty } from '../shared/ToolResultMapping';
+import { getAvailableTools, getToolAvailabilityRules, toolAvailabilityProperty } from '../shared/ToolGating';
+import {
+	getDiscardedToolApprovals,
+	getToolApprovalSettings,
+	resumeToolApprovals,
+	toolApprovalProperties,
+	updatePendingToolApprovals,
+} from '../shared/ToolApproval';
+import { createToolCache, toolCacheProperties } from '../shared/ToolCache';
+import { runToolRounds } from '../shared/ToolRounds';
 
 
 export class AIStateHandler implements INodeType {
@@ -34,31 +83,59 @@ export class AIStateHandler implements INodeType {
 			{
 				type: NodeConnectionTypes.AiLanguageModel,
 				displayName: 'LLM',
-				required: true,
+				required: false,
 				maxConnections: 1,
 			},
+			stateExtractionLlmInput,
 			{
 				type: NodeConnectionTypes.AiTool,
 				displayName: 'Tools',
 				maxConnections: undefined,
 			},
 		],
-		outputs: [NodeConnectionTypes.Main],
+		outputs: [NodeConnectionTypes.Main, NodeConnectionTypes.Main],
+		outputNames: ['State', 'Approval Needed'],
 		properties: [
 			{
-				displayName: 'State Management Workflow',
-				name: 'stateWorkflowId',
-				type: 'workflowSelector',
-				default: '',
-				required: true,
-				description: 'Select the workflow that handles state storage. The workflow must have an Execute Workflow Trigger with "operation" (supporting "get" and "set" values) and "content" input fields.',
-			},
-			{
-				displayName: 'This node will send "get" or "set" to the "operation" field and the state content to the "content" field when calling the State Management Workflow. By using this workflow approach, you can track and store state in any way you prefer - whether it\'s in a database, file system, cloud storage, or any other storage solution that fits your needs.',
-				name: 'stateWorkflowInfo',
-				type: 'notice',
-				default: '',
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Delete Session',
+						value: 'deleteSession',
+						description: 'Remove the session and all of its state from the storage',
+						action: 'Delete a session',
+					},
+					{
+						name: 'Get State',
+						value: 'getState',
+						description: 'Read the current state of the session without calling the LLM',
+						action: 'Get the state of a session',
+					},
+					{
+						name: 'Process Message',
+						value: 'processMessage',
+						description: 'Extract state from a message with the LLM',
+						action: 'Process a message',
+					},
+					{
+						name: 'Reset State',
+						value: 'resetState',
+						description: 'Clear the state of the session so the conversation starts over',
+						action: 'Reset the state of a session',
+					},
+					{
+						name: 'Rollback Session',
+						value: 'rollbackSession',
+						description: 'Restore the state as of an earlier turn from the state history',
+						action: 'Rollback a session',
+					},
+				],
+				default: 'processMessage',
 			},
+			...stateStorageProperties,
 			{
 				displayName: 'Session ID',
 				name: 'sessionId',
@@ -67,6 +144,18 @@ export class AIStateHandler implements INodeType {
 				required: true,
 				description: 'Unique identifier for the conversation session',
 			},
+			{
+				displayName: 'Include History Archive',
+				name: 'includeHistoryArchive',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['deleteSession', 'resetState'],
+					},
+				},
+				description: 'Whether to also delete or empty the turns the Stateful AI Agent archived for this session. Turn on when the agent\'s History Overflow is set to Archive.',
+			},
 			{
 				displayName: 'Role',
 				name: 'role',
@@ -82,6 +171,11 @@ export class AIStateHandler implements INodeType {
 					},
 				],
 				default: 'user',
+				displayOptions: {
+					show: {
+						operation: ['processMessage'],
+					},
+				},
 				description: 'The role to process (user message or system extraction)',
 			},
 			{
@@ -90,6 +184,11 @@ export class AIStateHandler implements INodeType {
 				type: 'string',
 				default: '={{ $json.message }}',
 				required: true,
+				displayOptions: {
+					show: {
+						operation: ['processMessage'],
+					},
+				},
 				description: 'The message to process',
 			},
 			{
@@ -97,8 +196,109 @@ export class AIStateHandler implements INodeType {
 				name: 'stateModel',
 				type: 'json',
 				default: '{\n  "name": "User name"\n}',
-				description: 'JSON object defining the state structure and descriptions',
+				displayOptions: {
+					show: {
+						operation: ['processMessage'],
+					},
+				},
+				description: 'JSON object defining the state structure and descriptions. A JSON Schema (type "object" with "properties") is also accepted to validate and coerce the extracted values.',
+			},
+			{
+				displayName: 'Rollback To',
+				name: 'rollbackTarget',
+				type: 'options',
+				options: [
+					{
+						name: 'Turn',
+						value: 'turn',
+					},
+					{
+						name: 'History Entry ID',
+						value: 'historyId',
+					},
+				],
+				default: 'turn',
+				displayOptions: {
+					show: {
+						operation: ['rollbackSession'],
+					},
+				},
+				description: 'How to identify the point in the state history to restore',
+			},
+			{
+				displayName: 'Turn',
+				name: 'rollbackTurn',
+				type: 'number',
+				default: 0,
+				typeOptions: {
+					minValue: 0,
+				},
+				displayOptions: {
+					show: {
+						operation: ['rollbackSession'],
+						rollbackTarget: ['turn'],
+					},
+				},
+				description: 'The conversation turn, as in the "turn" of the "state_history" entries. The state is restored as it was at the end of that turn. Use 0 to undo every recorded change.',
 			},
+			{
+				displayName: 'History Entry ID',
+				name: 'rollbackHistoryId',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['rollbackSession'],
+						rollbackTarget: ['historyId'],
+					},
+				},
+				description: 'The ID of a "state_history" entry. The state is restored as it was right after that entry.',
+			},
+			...imageInputProperties({
+				show: {
+					operation: ['processMessage'],
+					role: ['user'],
+				},
+			}),
+			...toolRunnerProperties({
+				show: {
+					operation: ['processMessage'],
+					role: ['user'],
+				},
+			}),
+			toolResultMappingProperty({
+				show: {
+					operation: ['processMessage'],
+					role: ['user'],
+				},
+			}),
+			toolAvailabilityProperty({
+				show: {
+					operation: ['processMessage'],
+					role: ['user'],
+				},
+			}),
+			...toolApprovalProperties({
+				show: {
+					operation: ['processMessage'],
+					role: ['user'],
+				},
+			}),
+			...toolCacheProperties({
+				show: {
+					operation: ['processMessage'],
+					role: ['user'],
+				},
+			}),
+			...stateHistoryProperties,
+			...jsonRepairProperties,
+			...usageProperties,
+			advancedPromptsProperty(Object.values(stateHandlerPromptStages), {
+				show: {
+					operation: ['processMessage'],
+				},
+			}),
 		],
 	};
 
@@ -111,42 +311,160 @@ export class AIStateHandler implements INodeType {
 		return cleaned.trim();
 	}
 
-	static parseToolResult(toolResult: any): any {
-		if (typeof toolResult !== 'string') {
-			return toolResult;
+	static async runSessionOperation(
+		ctx: IExecuteFunctions,
+		itemIndex: number,
+		operation: string,
+		sessionId: string,
+		stateStore: StateStore,
+	): Promise<INodeExecutionData> {
+		// Turns moved out by the "Archive" history overflow of the agent live in a session of their
+		// own, which is deleted or reset together with the session
+		const archiveStore = ctx.getNodeParameter('includeHistoryArchive', itemIndex, false)
+			? getStateStore(ctx, itemIndex, getHistoryArchiveSessionId(sessionId))
+			: null;
+
+		if (operation === 'deleteSession') {
+			await stateStore.delete();
+			await archiveStore?.delete();
+			return {
+				json: {
+					operation,
+					sessionId,
+					deleted: true,
+					message: `Session ${sessionId} deleted`,
+				},
+				pairedItem: itemIndex,
+			};
 		}
-		try {
-			return JSON.parse(toolResult);
-		} catch (e) {
-			return toolResult;
+
+		const prevState: Record<string, any> = await stateStore.get();
+
+		if (operation === 'resetState') {
+			await stateStore.reset();
+			await archiveStore?.reset();
+			return {
+				json: {
+					operation,
+					sessionId,
+					state: {},
+					prevState: prevState,
+					message: `State of session ${sessionId} reset`,
+				},
+				pairedItem: itemIndex,
+			};
 		}
+
+		return {
+			json: {
+				operation,
+				sessionId,
+				state: prevState,
+			},
+			pairedItem: itemIndex,
+		};
 	}
 
-	static formatStateModelDescription(stateModel: Record<string, any>): string {
-		const descriptions: string[] = [];
-		
-		for (const [key, value] of Object.entries(stateModel)) {
-			// Convert value to string - if it's an object, stringify it
-			const description = typeof value === 'object' && value !== null
-				? JSON.stringify(value)
-				: typeof value === 'string' ? value : String(value);
-			descriptions.push(`- ${key}: ${description}`);
+	static async rollbackSession(
+		ctx: IExecuteFunctions,
+		itemIndex: number,
+		stateStore: StateStore,
+	): Promise<INodeExecutionData> {
+		const rollbackTarget = ctx.getNodeParameter('rollbackTarget', itemIndex, 'turn') as string;
+		const target = rollbackTarget === 'historyId'
+			? { historyId: ctx.getNodeParameter('rollbackHistoryId', itemIndex) as string }
+			: { turn: ctx.getNodeParameter('rollbackTurn', itemIndex, 0) as number };
+		const targetDescription = target.historyId !== undefined
+			? `history entry ${target.historyId}`
+			: `turn ${target.turn}`;
+
+		const prevState: Record<string, any> = await stateStore.get();
+		const restored = restoreStateFromHistory(prevState, target);
+		if (!restored) {
+			throw new NodeOperationError(ctx.getNode(), `Cannot rollback: ${targetDescription} is not in the state history of this session`, {
+				itemIndex,
+			});
+		}
+
+		let state: Record<string, any> = restored.state;
+		const stateChangedProps = Object.keys({ ...prevState, ...state }).filter(key =>
+			!untrackedStateKeys.includes(key) && JSON.stringify(prevState[key]) !== JSON.stringify(state[key])
+		);
+
+		let writeConflicts: StateWriteConflict[] = [];
+		if (stateChangedProps.length > 0) {
+			const committed = await commitState(
+				ctx,
+				itemIndex,
+				stateStore,
+				prevState,
+				state,
+				stateChangedProps,
+				// A rollback is not a conversation turn
+				getStateHistoryHook(ctx, itemIndex, `Rollback to ${targetDescription}`, false),
+			);
+			state = committed.state;
+			writeConflicts = committed.conflicts;
 		}
-		
-		return descriptions.join('\n');
+
+		return {
+			json: {
+				operation: 'rollbackSession',
+				state: state,
+				prevState: prevState,
+				stateChangedProps: stateChangedProps,
+				revertedHistoryIds: restored.revertedEntries.map(entry => entry.id),
+				writeConflicts: writeConflicts,
+				message: stateChangedProps.length > 0
+					? `State rolled back to ${targetDescription}. Changed fields: ${stateChangedProps.join(", ")}`
+					: "No state changes detected",
+			},
+			pairedItem: itemIndex,
+		};
 	}
 
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
+		// Turns paused for the approval of tool calls
+		const approvalData: INodeExecutionData[] = [];
 
 		for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
 			try {
+				const operation = this.getNodeParameter('operation', itemIndex, 'processMessage') as string;
+				const sessionId = this.getNodeParameter('sessionId', itemIndex) as string;
+
+				if (!sessionId) {
+					throw new NodeOperationError(this.getNode(), 'Session ID is required. Please provide a session identifier.', {
+						itemIndex,
+					});
+				}
+
+				if (sessionId.startsWith(HISTORY_ARCHIVE_SESSION_PREFIX)) {
+					throw new NodeOperationError(this.getNode(), `Session IDs starting with "${HISTORY_ARCHIVE_SESSION_PREFIX}" are reserved for archived conversation history`, {
+						itemIndex,
+					});
+				}
+
+				const stateStore = getStateStore(this, itemIndex, sessionId);
+
+				if (operation === 'rollbackSession') {
+					returnData.push(await AIStateHandler.rollbackSession(this, itemIndex, stateStore));
+					continue;
+				}
+
+				if (operation === 'getState' || operation === 'resetState' || operation === 'deleteSession') {
+					returnData.push(await AIStateHandler.runSessionOperation(this, itemIndex, operation, sessionId, stateStore));
+					continue;
+				}
+
 				const message = this.getNodeParameter('message', itemIndex) as string;
 				const stateModelParam = this.getNodeParameter('stateModel', itemIndex);
 				const role = this.getNodeParameter('role', itemIndex, 'user') as string;
+				const toolApprovalSettings = getToolApprovalSettings(this, itemIndex);
 
-				if (!message) {
+				// A decision on paused tool calls resumes the turn with its stored message
+				if (!message && !(role === 'user' && toolApprovalSettings.decision !== 'none')) {
 					throw new NodeOperationError(this.getNode(), 'message is required but was not provided', {
 						itemIndex,
 					});
@@ -179,33 +497,27 @@ export class AIStateHandler implements INodeType {
 					});
 				}
 
-				const llm = (await this.getInputConnectionData(NodeConnectionTypes.AiLanguageModel, 0)) as any;
-				if (!llm) {
-					throw new NodeOperationError(this.getNode(), 'LLM is required but not connected', {
-						itemIndex,
-					});
-				}
-
-				const stateWorkflowIdParam = this.getNodeParameter('stateWorkflowId', itemIndex);
-				const stateWorkflowId = typeof stateWorkflowIdParam === 'object' && stateWorkflowIdParam !== null
-					? (stateWorkflowIdParam as IDataObject).value as string
-					: stateWorkflowIdParam as string;
-
-				const sessionId = this.getNodeParameter('sessionId', itemIndex) as string;
-
-				if (!stateWorkflowId) {
-					throw new NodeOperationError(this.getNode(), 'State Management Workflow is required. Please select a workflow.', {
-						itemIndex,
-					});
+				// A JSON Schema state model is validated against, and described to the LLM as field descriptions
+				let stateSchema: JsonSchema | null = null;
+				if (isJsonSchemaModel(stateModel)) {
+					stateSchema = stateModel;
+					const invalidPattern = findInvalidSchemaPattern(stateSchema);
+					if (invalidPattern) {
+						throw new NodeOperationError(this.getNode(), `Invalid pattern for State Model field "${invalidPattern.path}": ${invalidPattern.error}`, {
+							itemIndex,
+						});
+					}
+					stateModel = schemaToStateModel(stateSchema);
 				}
 
-				if (!sessionId) {
-					throw new NodeOperationError(this.getNode(), 'Session ID is required. Please provide a session identifier.', {
+				// Every step of this node is an extraction step, so a State Extraction LLM is preferred
+				const { extractionLlm: llm } = await getLanguageModels(this);
+				if (!llm) {
+					throw new NodeOperationError(this.getNode(), 'LLM is required but not connected', {
 						itemIndex,
 					});
 				}
 
-
 				let agentTools: any[] = [];
 				try {
 					const toolsResult = await this.getInputConnectionData(NodeConnectionTypes.AiTool, 0);
@@ -220,34 +532,26 @@ export class AIStateHandler implements INodeType {
 					// Tools are optional, continue without them
 				}
 
-				const callStateWorkflow = async (operation: string, content: string = '') => {
-					const inputData: IDataObject = {
-						sessionId,
-						operation,
-						content,
-					};
-
-					const result = await this.executeWorkflow(
-						{ id: stateWorkflowId },
-						[{
-							json: inputData
-						}]
-					);
-
-					if (!result?.data?.[0]?.[0]) {
-						throw new NodeOperationError(this.getNode(), 'State Management workflow returned no data', {
-							itemIndex,
-						});
-					}
-
-					return result.data[0][0].json;
-				};
-
-				const stateData = await callStateWorkflow("get");
-				const prevState: Record<string, any> = stateData || {};
+				const prevState: Record<string, any> = await stateStore.get();
 
 				let state: Record<string, any> = {};
 				let stateChangedProps: string[] = [];
+				let writeConflicts: StateWriteConflict[] = [];
+				const validationErrors: StateValidationError[] = [];
+
+				const usageTracker = new UsageTracker(getModelPriceTable(this, itemIndex));
+
+				// Every LLM attempt of the JSON steps, reported when "Include Debug Output" is on
+				const jsonAttempts: JsonStageAttempt[] = [];
+				const jsonStageOptions = {
+					clean: AIStateHandler.cleanJsonResponse,
+					repair: getJsonRepairSettings(this, itemIndex),
+					debug: jsonAttempts,
+					usage: usageTracker,
+				};
+				const debugOutput = this.getNodeParameter('includeDebugOutput', itemIndex, false)
+					? { debug: { jsonAttempts } }
+					: {};
 
 				const prevStateModelOnly: Record<string, any> = {};
 				for (const key of Object.keys(stateModel)) {
@@ -256,11 +560,17 @@ export class AIStateHandler implements INodeType {
 					}
 				}
 
-				const stateFieldDescriptions = AIStateHandler.formatStateModelDescription(stateModel);
+				const stateFieldDescriptions = formatStateModelFields(stateModel);
 
 				if (role !== 'user') {
-					const systemStatePrompt = ChatPromptTemplate.fromMessages([
-						['system', `
+					const systemStateInput: Record<string, any> = {
+						stateFields: stateFieldDescriptions,
+						currentState: Object.keys(prevStateModelOnly).length > 0 ? JSON.stringify(prevStateModelOnly, null, 2) : "{}",
+						systemMessage: message,
+					};
+
+					const systemStatePrompt = getStagePrompt(this, itemIndex, stateHandlerPromptStages.systemState, {
+						system: `
 Update conversation state from system message.
 
 State Model:
@@ -276,44 +586,33 @@ Rules:
 - Names: Extract only from explicit introductions (e.g., "name is John"). Ignore greetings.
 - Other fields: Extract only clear, unambiguous info. Keep previous value if unclear.
 - Preserve previous values when message lacks relevant info.
+- Nested fields are listed with dotted paths (e.g. address.city). Return them as nested objects.
 
 Return ONLY valid JSON with all state model fields:
 {{
   "field1": "value1",
   "field2": "value2"
 }}
-`],
-					]);
-
-					const systemStateChain = RunnableSequence.from([
-						systemStatePrompt,
-						llm,
-						new StringOutputParser(),
-					]);
-
-					const systemStateResult = await systemStateChain.invoke({
-						stateFields: stateFieldDescriptions,
-						currentState: Object.keys(prevStateModelOnly).length > 0 ? JSON.stringify(prevStateModelOnly, null, 2) : "{}",
-						systemMessage: message,
-					});
+`,
+					}, systemStateInput);
 
 					try {
-						const cleanedResult = AIStateHandler.cleanJsonResponse(systemStateResult);
-						state = JSON.parse(cleanedResult);
-
-						for (const key of Object.keys(stateModel)) {
-							if (!(key in state)) {
-								state[key] = null;
-							}
+						const systemStateResult = await invokeJsonStage(
+							llm,
+							systemStatePrompt,
+							systemStateInput,
+							buildStateOutputSchema(stateModel, stateSchema),
+							{ ...jsonStageOptions, stage: 'state_analysis' },
+						);
+						state = normalizeStateToModel(systemStateResult, stateModel);
+
+						if (stateSchema) {
+							validationErrors.push(...applyStateSchema(stateSchema, state, prevState));
 						}
 
 						state.system_last_message = message;
 
-						stateChangedProps = Object.keys(stateModel).filter(key => {
-							const prevValue = prevStateModelOnly[key];
-							const newValue = state[key];
-							return JSON.stringify(prevValue) !== JSON.stringify(newValue);
-						});
+						stateChangedProps = getChangedModelPaths(stateModel, prevStateModelOnly, state);
 
 						if (prevState.system_last_message !== message) {
 							stateChangedProps.push('system_last_message');
@@ -325,8 +624,20 @@ Return ONLY valid JSON with all state model fields:
 						});
 					}
 
-					if (stateChangedProps.length > 0) {
-						await callStateWorkflow("set", JSON.stringify(state));
+					// With state history, turns without changes are saved too so they are counted
+					const historyHook = getStateHistoryHook(this, itemIndex, message);
+					if (stateChangedProps.length > 0 || historyHook) {
+						const committed = await commitState(
+							this,
+							itemIndex,
+							stateStore,
+							prevState,
+							state,
+							stateChangedProps,
+							historyHook,
+						);
+						state = committed.state;
+						writeConflicts = committed.conflicts;
 					}
 
 					returnData.push({
@@ -334,6 +645,10 @@ Return ONLY valid JSON with all state model fields:
 							state: state,
 							prevState: prevState,
 							stateChangedProps: stateChangedProps,
+							validationErrors: validationErrors,
+							writeConflicts: writeConflicts,
+							usage: usageTracker.getSummary(),
+							...debugOutput,
 							role: role,
 							message: stateChangedProps.length > 0
 								? `System state updated successfully. Changed fields: ${stateChangedProps.join(", ")}`
@@ -343,12 +658,28 @@ Return ONLY valid JSON with all state model fields:
 					});
 
 				} else {
-					const availableToolsDesc = agentTools.map(tool =>
-						`- ${tool.name}: ${tool.description || 'No description available'}`
-					).join("\n");
+					// Tool availability rules are checked against the state of the turn so far
+					const toolAvailabilityRules = getToolAvailabilityRules(this, itemIndex);
+					const availableToolsDesc = describeTools(getAvailableTools(agentTools, toolAvailabilityRules, { ...prevState, ...state }));
 
-					const stateAndToolsPrompt = ChatPromptTemplate.fromMessages([
-						['system', `
+					// A decision on the tool calls of a paused turn resumes that turn with its message
+					const resumedApprovals = resumeToolApprovals(this, itemIndex, prevState, toolApprovalSettings);
+					const turnMessage = resumedApprovals ? resumedApprovals.message : message;
+					const discardedApprovals = getDiscardedToolApprovals(prevState, toolApprovalSettings);
+					const toolCache = createToolCache(this, itemIndex, prevState);
+
+					// Images sent with the user message, e.g. a photo of a receipt
+					const images = await getImageAttachments(this, itemIndex);
+
+					const stateAndToolsInput: Record<string, any> = {
+						stateFields: stateFieldDescriptions,
+						currentState: Object.keys(prevStateModelOnly).length > 0 ? JSON.stringify(prevStateModelOnly, null, 2) : "{}",
+						availableTools: availableToolsDesc,
+						userMessage: turnMessage,
+					};
+
+					const stateAndToolsPrompt = attachImages(getStagePrompt(this, itemIndex, stateHandlerPromptStages.stateAnalysis, {
+						system: `
 Analyze user message to update state and identify required tools.
 
 State Model:
@@ -368,6 +699,7 @@ Rules:
 - Other fields: Extract only clear info. Keep previous value if unclear.
 - Identify tools needed for missing state data.
 - List fields requiring post-tool analysis in "fields_needing_post_analysis".
+- Nested fields are listed with dotted paths (e.g. address.city). Return them as nested objects.
 
 Return ONLY valid JSON:
 {{
@@ -377,121 +709,90 @@ Return ONLY valid JSON:
   ],
   "fields_needing_post_analysis": ["field1", "field2"]
 }}
-`],
-					]);
-
-					const stateAndToolsChain = RunnableSequence.from([
-						stateAndToolsPrompt,
-						llm,
-						new StringOutputParser(),
-					]);
-
-					const stateAndToolsResult = await stateAndToolsChain.invoke({
-						stateFields: stateFieldDescriptions,
-						currentState: Object.keys(prevStateModelOnly).length > 0 ? JSON.stringify(prevStateModelOnly, null, 2) : "{}",
-						availableTools: availableToolsDesc || "No tools available",
-						userMessage: message,
-					});
+`,
+					}, stateAndToolsInput), images);
 
 					let toolsToInvoke: any[] = [];
 					let stateFieldsWithDependencies = new Set<string>();
 
-					try {
-						const cleanedResult = AIStateHandler.cleanJsonResponse(stateAndToolsResult);
-						const parsedResult = JSON.parse(cleanedResult);
-
-						state = parsedResult.state || {};
-
-						for (const key of Object.keys(stateModel)) {
-							if (!(key in state)) {
-								state[key] = null;
-							}
-						}
-
-						stateChangedProps = Object.keys(stateModel).filter(key => {
-							const prevValue = prevStateModelOnly[key];
-							const newValue = state[key];
-							return JSON.stringify(prevValue) !== JSON.stringify(newValue);
-						});
-
-						toolsToInvoke = Array.isArray(parsedResult.tools_to_invoke) ? parsedResult.tools_to_invoke : [];
-
-						const fieldsNeedingPostAnalysis = parsedResult.fields_needing_post_analysis || [];
-						if (Array.isArray(fieldsNeedingPostAnalysis)) {
-							fieldsNeedingPostAnalysis.forEach((field: string) => {
-								if (field in stateModel) {
-									stateFieldsWithDependencies.add(field);
-								}
-							});
-						}
-
-					} catch (error) {
-						throw new NodeOperationError(this.getNode(), `Failed to parse state and tools JSON: ${error.message}`, {
-							itemIndex,
-						});
-					}
-
-					const invokedToolResults: any[] = [];
-
-					if (toolsToInvoke.length > 0) {
-						for (const toolInvocation of toolsToInvoke) {
-							const { tool_name, reason, input_params, state_field } = toolInvocation;
-
-							const tool = agentTools.find(t => t.name === tool_name || t.name.toLowerCase() === tool_name.toLowerCase());
-							if (!tool) {
-								continue;
+					if (resumedApprovals) {
+						// The state analysis ran in the paused turn
+						state = JSON.parse(JSON.stringify(prevStateModelOnly));
+						toolsToInvoke = resumedApprovals.tools;
+					} else {
+						try {
+							const parsedResult = await invokeJsonStage(
+								llm,
+								stateAndToolsPrompt,
+								stateAndToolsInput,
+								buildStageOutputSchema(stateModel, stateSchema, { tools: true, postAnalysis: true }),
+								{ ...jsonStageOptions, stage: 'state_analysis' },
+							);
+
+							state = normalizeStateToModel(parsedResult.state || {}, stateModel);
+
+							if (stateSchema) {
+								validationErrors.push(...applyStateSchema(stateSchema, state, prevState));
 							}
 
-							try {
-								const toolResult = await tool.invoke(input_params || {});
-
-								invokedToolResults.push({
-									tool_name,
-									state_field,
-									result: toolResult
-								});
-
-								let targetField = state_field;
-								if (!targetField) {
-									if (tool_name.toLowerCase().includes('steps') || reason?.toLowerCase().includes('steps')) {
-										targetField = 'task_steps';
-									}
-								}
+							stateChangedProps = getChangedModelPaths(stateModel, prevStateModelOnly, state);
 
-								if (targetField && targetField in stateModel) {
-									const parsedResult = AIStateHandler.parseToolResult(toolResult);
+							toolsToInvoke = Array.isArray(parsedResult.tools_to_invoke) ? parsedResult.tools_to_invoke : [];
 
-									if (JSON.stringify(state[targetField]) !== JSON.stringify(parsedResult)) {
-										state[targetField] = parsedResult;
-										if (!stateChangedProps.includes(targetField)) {
-											stateChangedProps.push(targetField);
-										}
+							const fieldsNeedingPostAnalysis = parsedResult.fields_needing_post_analysis || [];
+							if (Array.isArray(fieldsNeedingPostAnalysis)) {
+								fieldsNeedingPostAnalysis.forEach((field: string) => {
+									if (getNestedValue(stateModel, field) !== undefined) {
+										stateFieldsWithDependencies.add(field);
 									}
-								}
-
-							} catch (error) {
-								invokedToolResults.push({
-									tool_name,
-									state_field,
-									error: (error as Error).message
 								});
 							}
+
+						} catch (error) {
+							throw new NodeOperationError(this.getNode(), `Failed to parse state and tools JSON: ${error.message}`, {
+								itemIndex,
+							});
 						}
 					}
 
-					// Always perform post-tool analysis when tools are invoked
-					// This ensures state is updated with tool results even if fields_needing_post_analysis wasn't specified
-					const needsPostToolAnalysis = invokedToolResults.length > 0;
-
-					if (needsPostToolAnalysis) {
-						const toolResultsSummary = invokedToolResults.map(result =>
-							`Tool: ${result.tool_name}
+					// Every round runs the requested tools, then the post-tool analysis may request more
+					const { results: invokedToolResults, rounds: toolRounds, approvalRequest } = await runToolRounds(toolsToInvoke, {
+						ctx: this,
+						itemIndex,
+						llm,
+						inputCorrectionStage: stateHandlerPromptStages.toolInputCorrection,
+						jsonStageOptions,
+						message: turnMessage,
+						tools: agentTools,
+						stateModel,
+						prevState,
+						state,
+						stateChangedProps,
+						runSettings: getToolRunSettings(this, itemIndex),
+						availabilityRules: toolAvailabilityRules,
+						mappings: getToolResultMappings(this, itemIndex, stateModel),
+						approvalSettings: toolApprovalSettings,
+						cache: toolCache,
+						resumed: resumedApprovals,
+						// Always perform post-tool analysis when tools are invoked
+						// This ensures state is updated with tool results even if fields_needing_post_analysis wasn't specified
+						postToolStep: async ({ results, canRequestTools, availableTools }) => {
+							const toolResultsSummary = results.map(result =>
+								`Tool: ${result.tool_name}
 Target State Field: ${result.state_field || 'not specified'}
 Result: ${JSON.stringify(result.result || result.error, null, 2)}`
-						).join('\n\n');
-
-						const postToolStatePrompt = ChatPromptTemplate.fromMessages([
-							['system', `
+							).join('\n\n');
+
+							const postToolStateInput: Record<string, any> = {
+								stateFields: stateFieldDescriptions,
+								currentState: JSON.stringify(state, null, 2),
+								toolResults: toolResultsSummary,
+								userMessage: turnMessage,
+								...(availableTools !== undefined ? { availableTools } : {}),
+							};
+
+							const postToolStatePrompt = attachImages(getStagePrompt(this, itemIndex, stateHandlerPromptStages.postToolState, {
+								system: `
 Update state from tool results.
 
 State Model:
@@ -509,60 +810,70 @@ Rules:
 - Update only fields with EXPLICIT evidence from tool results. No assumptions.
 - Update null/unset fields if tool results provide clear info matching field description.
 - Keep fields unchanged if info is vague or doesn't match.
+- Nested fields are listed with dotted paths (e.g. address.city). Return them as nested objects.
 
-Return ONLY valid JSON with all state model fields:
+${canRequestTools ? TOOL_ROUND_INSTRUCTIONS : `Return ONLY valid JSON with all state model fields:
 {{
   "field1": "value1",
   "field2": "value2"
-}}
-`],
-						]);
-
-						const postToolStateChain = RunnableSequence.from([
-							postToolStatePrompt,
-							llm,
-							new StringOutputParser(),
-						]);
-
-						const postToolStateResult = await postToolStateChain.invoke({
-							stateFields: stateFieldDescriptions,
-							currentState: JSON.stringify(state, null, 2),
-							toolResults: toolResultsSummary,
-							userMessage: message,
-						});
-
-						try {
-							const cleanedResult = AIStateHandler.cleanJsonResponse(postToolStateResult);
-							const updatedState = JSON.parse(cleanedResult);
-
-							for (const key of Object.keys(stateModel)) {
-								if (key in updatedState && JSON.stringify(state[key]) !== JSON.stringify(updatedState[key])) {
-									state[key] = updatedState[key];
-									if (!stateChangedProps.includes(key)) {
-										stateChangedProps.push(key);
-									}
-								}
-							}
-
-						} catch (error) {
-							// Continue with current state without post-tool updates
-						}
-					}
+}}`}
+`,
+							}, postToolStateInput), images);
+
+							const postToolResult = await invokeJsonStage(
+								llm,
+								postToolStatePrompt,
+								postToolStateInput,
+								canRequestTools
+									? buildStageOutputSchema(stateModel, stateSchema, { tools: true })
+									: buildStateOutputSchema(stateModel, stateSchema),
+								{ ...jsonStageOptions, stage: 'post_tool_state' },
+							);
+							return readPostToolResult(postToolResult, canRequestTools);
+						},
+					});
 
-					if (stateChangedProps.length > 0) {
-						await callStateWorkflow("set", JSON.stringify(state));
+					// Tool results and post-tool updates are validated as well
+					enforceStateSchema(stateSchema, state, prevState, stateChangedProps, validationErrors);
+					updatePendingToolApprovals(state, prevState, stateChangedProps, approvalRequest);
+					toolCache?.store(state, prevState, stateChangedProps);
+
+					// With state history, turns without changes are saved too so they are counted.
+					// A resumed turn keeps the number of the paused turn.
+					const historyHook = getStateHistoryHook(this, itemIndex, turnMessage, !resumedApprovals);
+					if (stateChangedProps.length > 0 || historyHook) {
+						const committed = await commitState(
+							this,
+							itemIndex,
+							stateStore,
+							prevState,
+							state,
+							stateChangedProps,
+							historyHook,
+						);
+						state = committed.state;
+						writeConflicts = committed.conflicts;
 					}
 
-					returnData.push({
+					(approvalRequest ? approvalData : returnData).push({
 						json: {
 							state: state,
 							prevState: prevState,
 							stateChangedProps: stateChangedProps,
 							toolsInvoked: invokedToolResults,
+							toolRounds: toolRounds,
+							...(approvalRequest ? { pendingToolApprovals: approvalRequest } : {}),
+							...(discardedApprovals ? { discardedToolApprovals: discardedApprovals } : {}),
+							validationErrors: validationErrors,
+							writeConflicts: writeConflicts,
+							usage: usageTracker.getSummary(),
+							...debugOutput,
 							role: role,
-							message: stateChangedProps.length > 0
-								? `State updated successfully. Changed fields: ${stateChangedProps.join(", ")}`
-								: "No state changes detected",
+							message: approvalRequest
+								? `Waiting for approval of: ${approvalRequest.tools.map((tool) => tool.tool_name).join(", ")}`
+								: stateChangedProps.length > 0
+									? `State updated successfully. Changed fields: ${stateChangedProps.join(", ")}`
+									: "No state changes detected",
 						},
 						pairedItem: itemIndex,
 					});
@@ -589,6 +900,6 @@ Return ONLY valid JSON with all state model fields:
 			}
 		}
 
-		return [returnData];
+		return [returnData, approvalData];
 	}
 }
@@ -3,13 +3,75 @@ import type {
 	INodeExecutionData,
 	INodeType,
 	INodeTypeDescription,
-	IDataObject,
 } from 'n8n-workflow';
 import { NodeConnectionTypes, NodeOperationError } from 'n8n-workflow';
 import { RunnableSequence } from '@langchain/core/runnables';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
 import { StringOutputParser } from '@langchain/core/output_parsers';
 import { AgentExecutor, createToolCallingAgent } from 'langchain/agents';
+import type { StateWriteConflict } from '../shared/StateStorage';
+import { combinePrepareHooks, commitState, getStateStore, stateStorageProperties } from '../shared/StateStorage';
+import { getStateHistoryHook, stateHistoryProperties } from '../shared/StateHistory';
+import type { CompletionStatus } from '../shared/SlotFilling';
+import {
+	buildSlotFillingInstruction,
+	getRequiredFields,
+	requiredFieldsProperty,
+	updateCompletionStatus,
+} from '../shared/SlotFilling';
+import { extractStateModelStructure } from '../shared/StateModel';
+import type { JsonSchema, StateValidationError } from '../shared/StateSchema';
+import { enforceStateSchema, findInvalidSchemaPattern, isJsonSchemaModel, schemaToStateModel } from '../shared/StateSchema';
+import { renderPromptTemplate } from '../shared/PromptTemplate';
+import type { JsonStageAttempt } from '../shared/StructuredOutput';
+import {
+	buildStageOutputSchema,
+	buildStateOutputSchema,
+	getJsonRepairSettings,
+	invokeJsonStage,
+	jsonRepairProperties,
+} from '../shared/StructuredOutput';
+import { getModelPriceTable, UsageTracker, usageProperties } from '../shared/UsageTracker';
+import { getLanguageModels, stateExtractionLlmInput } from '../shared/LanguageModels';
+import { advancedPromptsProperty, agentPromptStages, getStagePrompt } from '../shared/PromptOverrides';
+import { attachImages, getImageAttachments, imageInputProperties } from '../shared/ImageInput';
+import type { ToolRound } from '../shared/ToolRunner';
+import {
+	getRequestedTools,
+	getToolRunSettings,
+	readPostToolResult,
+	TOOL_ROUND_INSTRUCTIONS,
+	toolRunnerProperties,
+} from '../shared/ToolRunner';
+import { describeTools } from '../shared/ToolSchemas';
+import { getToolResultMappings, toolResultMappingProperty } from '../shared/ToolResultMapping';
+import { getAvailableTools, getToolAvailabilityRules, toolAvailabilityProperty } from '../shared/ToolGating';
+import type { PendingToolApprovals } from '../shared/ToolApproval';
+import {
+	getDiscardedToolApprovals,
+	getToolApprovalSettings,
+	requiresApproval,
+	resumeToolApprovals,
+	toolApprovalProperties,
+	updatePendingToolApprovals,
+} from '../shared/ToolApproval';
+import { createToolCache, toolCacheProperties } from '../shared/ToolCache';
+import { runToolRounds } from '../shared/ToolRounds';
+import type { ConversationHistoryEntry, HistoryToolCall } from '../shared/ConversationHistory';
+import {
+	archiveConversationHistory,
+	conversationHistoryProperties,
+	createHistoryEntry,
+	formatHistoryEntry,
+	getConversationHistory,
+	getConversationHistorySettings,
+	getConversationSummary,
+	getHistoryTrimHook,
+	HISTORY_ARCHIVE_SESSION_PREFIX,
+	selectPromptHistory,
+	splitTurnsToSummarize,
+	updateConversationSummary,
+} from '../shared/ConversationHistory';
 
 export class StatefulAIAgent implements INodeType {
 	description: INodeTypeDescription = {
@@ -31,28 +93,17 @@ export class StatefulAIAgent implements INodeType {
 				required: true,
 				maxConnections: 1,
 			},
+			stateExtractionLlmInput,
 			{
 				type: NodeConnectionTypes.AiTool,
 				displayName: 'Tools',
 				maxConnections: undefined,
 			},
 		],
-		outputs: [NodeConnectionTypes.Main],
+		outputs: [NodeConnectionTypes.Main, NodeConnectionTypes.Main],
+		outputNames: ['Response', 'Approval Needed'],
 		properties: [
-			{
-				displayName: 'State Management Workflow',
-				name: 'stateWorkflowId',
-				type: 'workflowSelector',
-				default: '',
-				required: true,
-				description: 'Select the workflow that handles state storage. The workflow must have an Execute Workflow Trigger with "operation" (supporting "get" and "set" values) and "content" input fields.',
-			},
-			{
-				displayName: 'This node will send "get" or "set" to the "operation" field and the state content to the "content" field when calling the State Management Workflow. By using this workflow approach, you can track and store state in any way you prefer - whether it\'s in a database, file system, cloud storage, or any other storage solution that fits your needs.',
-				name: 'stateWorkflowInfo',
-				type: 'notice',
-				default: '',
-			},
+			...stateStorageProperties,
 			{
 				displayName: 'Session ID',
 				name: 'sessionId',
@@ -88,7 +139,15 @@ export class StatefulAIAgent implements INodeType {
 				type: 'json',
 				default: '',
 				placeholder: '{\n  "field_name": "Description of what this field tracks"\n}',
-				description: 'JSON object defining the state fields to track. Each key is a field name and value is its description.',
+				description: 'JSON object defining the state fields to track. Each key is a field name and value is its description. A JSON Schema (type "object" with "properties") is also accepted to validate and coerce the extracted values.',
+			},
+			requiredFieldsProperty,
+			{
+				displayName: 'Slot Filling',
+				name: 'slotFilling',
+				type: 'boolean',
+				default: false,
+				description: 'Whether the reply should ask for the next missing required field, in the order of Required Fields, instead of relying on the system prompt',
 			},
 			{
 				displayName: 'Enable Conversation History',
@@ -97,6 +156,14 @@ export class StatefulAIAgent implements INodeType {
 				default: false,
 				description: 'Whether to track and maintain conversation history across interactions',
 			},
+			...conversationHistoryProperties,
+			...imageInputProperties(),
+			// Without a State Model the tool-calling agent runs its tools itself
+			...toolRunnerProperties({ hide: { stateModel: [''] } }),
+			toolResultMappingProperty(),
+			toolAvailabilityProperty(),
+			...toolApprovalProperties(),
+			...toolCacheProperties({ hide: { stateModel: [''] } }),
 			{
 				displayName: 'Single Prompt State Tracking',
 				name: 'singlePromptStateTracking',
@@ -104,15 +171,26 @@ export class StatefulAIAgent implements INodeType {
 				default: true,
 				description: 'Whether to use single prompt mode (faster) or double prompt mode (more accurate state tracking)',
 			},
+			...stateHistoryProperties,
+			...jsonRepairProperties,
+			...usageProperties,
+			advancedPromptsProperty(Object.values(agentPromptStages)),
 		],
 	};
 
 	// Helper Methods (Static)
-	static formatConversationHistory(history: Array<{ role: string; message: string }>): string {
-		if (!Array.isArray(history) || history.length === 0) {
+	static formatConversationHistory(history: ConversationHistoryEntry[], summary = '', showToolCalls = false): string {
+		const transcript = Array.isArray(history)
+			? history.map(entry => formatHistoryEntry(entry, showToolCalls)).join("\n")
+			: '';
+		if (summary) {
+			const recent = transcript ? `\n\nRecent messages:\n${transcript}` : '';
+			return `Summary of the earlier conversation:\n${summary}${recent}`;
+		}
+		if (!transcript) {
 			return "No previous conversation.";
 		}
-		return history.map(entry => `${entry.role}: ${entry.message}`).join("\n");
+		return transcript;
 	}
 
 	static cleanJsonResponse(jsonString: string): string {
@@ -184,214 +262,6 @@ export class StatefulAIAgent implements INodeType {
 		return result;
 	}
 
-	static parseToolResult(toolResult: any): any {
-		if (typeof toolResult !== 'string') {
-			return toolResult;
-		}
-		try {
-			return JSON.parse(toolResult);
-		} catch (e) {
-			return toolResult;
-		}
-	}
-
-	static extractStateModelStructure(stateModel: any, prefix: string = ''): Array<{ path: string; description: string }> {
-		const fields: Array<{ path: string; description: string }> = [];
-		
-		for (const [key, value] of Object.entries(stateModel)) {
-			const fullPath = prefix ? `${prefix}.${key}` : key;
-			
-			if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-				// Recursively extract nested structure
-				fields.push(...StatefulAIAgent.extractStateModelStructure(value, fullPath));
-			} else {
-				// Leaf field
-				fields.push({
-					path: fullPath,
-					description: typeof value === 'string' ? value : JSON.stringify(value)
-				});
-			}
-		}
-		
-		return fields;
-	}
-
-	static getNestedValue(obj: any, path: string): any {
-		const parts = path.split('.');
-		let current = obj;
-		for (const part of parts) {
-			if (current === null || current === undefined || typeof current !== 'object') {
-				return undefined;
-			}
-			current = current[part];
-		}
-		return current;
-	}
-
-	static setNestedValue(obj: any, path: string, value: any): void {
-		const parts = path.split('.');
-		let current = obj;
-		for (let i = 0; i < parts.length - 1; i++) {
-			const part = parts[i];
-			if (!(part in current) || typeof current[part] !== 'object' || current[part] === null || Array.isArray(current[part])) {
-				current[part] = {};
-			}
-			current = current[part];
-		}
-		current[parts[parts.length - 1]] = value;
-	}
-
-	static parseTemplateWithNestedProps(template: string, input: Record<string, any>): string {
-		// Find all {variable} patterns in the template
-		const variablePattern = /\{([^}]+)\}/g;
-		let result = template;
-		let match;
-
-		// Create a Set to track processed variables to avoid duplicate processing
-		const processedVars = new Set<string>();
-
-		// First pass: collect all variables
-		const variables: string[] = [];
-		while ((match = variablePattern.exec(template)) !== null) {
-			const varName = match[1];
-			if (!processedVars.has(varName)) {
-				variables.push(varName);
-				processedVars.add(varName);
-			}
-		}
-
-		// Second pass: replace each variable
-		for (const varName of variables) {
-			let value: any;
-
-			// Check if it's a nested property (contains dots)
-			if (varName.includes('.')) {
-				// Use getNestedValue to resolve nested properties
-				value = StatefulAIAgent.getNestedValue(input, varName);
-			} else {
-				// Direct property access
-				value = input[varName];
-			}
-
-			// Handle undefined/null values
-			if (value === undefined || value === null) {
-				value = '';
-			} else if (typeof value === 'object') {
-				// Stringify objects and arrays
-				value = JSON.stringify(value);
-				// Escape curly braces for LangChain's ChatPromptTemplate (double them)
-				// This prevents LangChain from trying to parse them as template variables
-				value = value.replace(/\{/g, '{{').replace(/\}/g, '}}');
-			} else {
-				// Convert to string for primitive values
-				value = String(value);
-			}
-
-			// Replace all occurrences of this variable in the template
-			const regex = new RegExp(`\\{${varName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\}`, 'g');
-			result = result.replace(regex, value);
-		}
-
-		return result;
-	}
-
-	static mergeStateWithModel(updatedState: any, stateModel: any, currentState: Record<string, any>): Record<string, any> {
-		// Start with a clean state that matches the state model structure exactly
-		const mergedState: Record<string, any> = {};
-		
-		// Initialize structure from state model
-		const initializeStructure = (model: any, target: any): void => {
-			for (const [key, value] of Object.entries(model)) {
-				if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-					target[key] = {};
-					initializeStructure(value, target[key]);
-				} else {
-					target[key] = null;
-				}
-			}
-		};
-		
-		initializeStructure(stateModel, mergedState);
-		
-		// Extract all field paths from state model
-		const modelFields = StatefulAIAgent.extractStateModelStructure(stateModel);
-		
-		// Only update fields that exist in the state model
-		for (const field of modelFields) {
-			const value = StatefulAIAgent.getNestedValue(updatedState, field.path);
-			if (value !== undefined && value !== null) {
-				StatefulAIAgent.setNestedValue(mergedState, field.path, value);
-			} else {
-				// Preserve current state value if updated state doesn't have it
-				const currentValue = StatefulAIAgent.getNestedValue(currentState, field.path);
-				if (currentValue !== undefined) {
-					StatefulAIAgent.setNestedValue(mergedState, field.path, currentValue);
-				}
-			}
-		}
-		
-		return mergedState;
-	}
-
-	static async invokeTools(
-		toolsToInvoke: any[],
-		agentTools: any[],
-		stateModel: Record<string, string>,
-		state: Record<string, any>,
-		stateChangedProps: string[]
-	): Promise<{ invokedToolNames: string[]; toolResults: any[] }> {
-		const invokedToolNames: string[] = [];
-		const toolResults: any[] = [];
-
-		for (const toolInvocation of toolsToInvoke) {
-			const { tool_name, reason, input_params, state_field } = toolInvocation;
-
-			const tool = agentTools.find(t =>
-				t.name === tool_name || t.name.toLowerCase() === tool_name.toLowerCase()
-			);
-
-			if (!tool) {
-				continue;
-			}
-
-			try {
-				const toolResult = await tool.invoke(input_params || {});
-
-				toolResults.push({
-					tool_name,
-					state_field,
-					result: toolResult
-				});
-
-				let targetField = state_field;
-				if (!targetField && (tool_name.toLowerCase().includes('steps') || reason?.toLowerCase().includes('steps'))) {
-					targetField = 'task_steps';
-				}
-
-				if (targetField && targetField in stateModel) {
-					const parsedResult = StatefulAIAgent.parseToolResult(toolResult);
-
-					if (JSON.stringify(state[targetField]) !== JSON.stringify(parsedResult)) {
-						state[targetField] = parsedResult;
-						if (!stateChangedProps.includes(targetField)) {
-							stateChangedProps.push(targetField);
-						}
-					}
-				}
-
-				invokedToolNames.push(tool_name);
-			} catch (error) {
-				toolResults.push({
-					tool_name,
-					state_field,
-					error: (error as Error).message
-				});
-			}
-		}
-
-		return { invokedToolNames, toolResults };
-	}
-
 	static validateAndExtractState(
 		parsedResult: any,
 		stateModel: Record<string, string>,
@@ -425,37 +295,36 @@ export class StatefulAIAgent implements INodeType {
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
+		// Turns paused for the approval of tool calls
+		const approvalData: INodeExecutionData[] = [];
 
 		for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
 			try {
 				// Get node parameters
-				const userMessage = this.getNodeParameter('userMessage', itemIndex) as string;
+				let userMessage = this.getNodeParameter('userMessage', itemIndex) as string;
 				const systemPrompt = this.getNodeParameter('systemPrompt', itemIndex, "You're a helpful assistant") as string;
 				const stateModelParam = this.getNodeParameter('stateModel', itemIndex, '');
 				const conversationHistory = this.getNodeParameter('conversationHistory', itemIndex, false) as boolean;
 				const singlePromptStateTracking = this.getNodeParameter('singlePromptStateTracking', itemIndex, true) as boolean;
-
-				// Get State Management Workflow ID
-				const stateWorkflowIdParam = this.getNodeParameter('stateWorkflowId', itemIndex);
-				const stateWorkflowId = typeof stateWorkflowIdParam === 'object' && stateWorkflowIdParam !== null
-					? (stateWorkflowIdParam as IDataObject).value as string
-					: stateWorkflowIdParam as string;
+				const slotFilling = this.getNodeParameter('slotFilling', itemIndex, false) as boolean;
 
 				// Get session ID
 				const sessionId = this.getNodeParameter('sessionId', itemIndex) as string;
 
-				if (!stateWorkflowId) {
-					throw new NodeOperationError(this.getNode(), 'State Management Workflow is required. Please select a workflow.', {
+				if (!sessionId) {
+					throw new NodeOperationError(this.getNode(), 'Session ID is required. Please provide a session identifier.', {
 						itemIndex,
 					});
 				}
 
-				if (!sessionId) {
-					throw new NodeOperationError(this.getNode(), 'Session ID is required. Please provide a session identifier.', {
+				if (sessionId.startsWith(HISTORY_ARCHIVE_SESSION_PREFIX)) {
+					throw new NodeOperationError(this.getNode(), `Session IDs starting with "${HISTORY_ARCHIVE_SESSION_PREFIX}" are reserved for archived conversation history`, {
 						itemIndex,
 					});
 				}
 
+				const stateStore = getStateStore(this, itemIndex, sessionId);
+
 				// Handle stateModel - it can be a string or an object from another node
 				let stateModelStr: string;
 				if (typeof stateModelParam === 'object' && stateModelParam !== null) {
@@ -470,6 +339,7 @@ export class StatefulAIAgent implements INodeType {
 
 				// Parse state model
 				let stateModel: Record<string, string> | null = null;
+				let stateSchema: JsonSchema | null = null;
 				if (stateModelStr && stateModelStr.trim()) {
 					try {
 						stateModel = JSON.parse(stateModelStr);
@@ -480,8 +350,39 @@ export class StatefulAIAgent implements INodeType {
 					}
 				}
 
+				// A JSON Schema state model is validated against, and described to the LLM as field descriptions
+				if (isJsonSchemaModel(stateModel)) {
+					stateSchema = stateModel;
+					const invalidPattern = findInvalidSchemaPattern(stateSchema as JsonSchema);
+					if (invalidPattern) {
+						throw new NodeOperationError(this.getNode(), `Invalid pattern for State Model field "${invalidPattern.path}": ${invalidPattern.error}`, {
+							itemIndex,
+						});
+					}
+					stateModel = schemaToStateModel(stateSchema as JsonSchema);
+				}
+
+				const requiredFields = stateModel
+					? getRequiredFields(stateModel, stateSchema, this.getNodeParameter('requiredFields', itemIndex, '') as string)
+					: [];
+
+				// The System Prompt is rendered with the state and always passed as the {systemPrompt}
+				// value, so its braces never reach ChatPromptTemplate. In slot filling mode the reply asks
+				// for the next missing required field. Pass null as the slot filling state when the reply
+				// is generated in the same call as the state extraction.
+				const buildSystemPrompt = (
+					templateState: Record<string, any>,
+					slotFillingState: Record<string, any> | null,
+				): string => {
+					const prompt = renderPromptTemplate(systemPrompt, templateState);
+					const instruction = slotFilling ? buildSlotFillingInstruction(requiredFields, slotFillingState) : '';
+					return instruction ? `${prompt}\n\n${instruction}` : prompt;
+				};
+
 				// Get AI connections
-				const llm = (await this.getInputConnectionData(NodeConnectionTypes.AiLanguageModel, 0)) as any;
+				// The optional State Extraction LLM runs the extraction and tool planning steps,
+				// the main LLM writes every reply to the user
+				const { llm, extractionLlm } = await getLanguageModels(this);
 				if (!llm) {
 					throw new NodeOperationError(this.getNode(), 'LLM is required but not connected', {
 						itemIndex,
@@ -503,50 +404,77 @@ export class StatefulAIAgent implements INodeType {
 					// Tools are optional, continue without them
 				}
 
-
-				if (!userMessage) {
+				// Get Previous State
+				let prevState: Record<string, any> = {};
+				let state: Record<string, any> = {};
+				let stateChangedProps: string[] = [];
+				const validationErrors: StateValidationError[] = [];
+
+				const usageTracker = new UsageTracker(getModelPriceTable(this, itemIndex));
+				const historySettings = getConversationHistorySettings(this, itemIndex);
+				// Images of the item, added to the user message of every prompt of this turn
+				const images = await getImageAttachments(this, itemIndex);
+				const toolRunSettings = getToolRunSettings(this, itemIndex);
+				const toolResultMappings = getToolResultMappings(this, itemIndex, stateModel);
+				const toolAvailabilityRules = getToolAvailabilityRules(this, itemIndex);
+				const toolApprovalSettings = getToolApprovalSettings(this, itemIndex);
+
+				// A decision on paused tool calls resumes the turn with its stored user message
+				if (!userMessage && toolApprovalSettings.decision === 'none') {
 					throw new NodeOperationError(this.getNode(), 'User Message is required', {
 						itemIndex,
 					});
 				}
+				// Without a State Model the tool-calling agent runs the tools itself and cannot pause for approval
+				const unapprovableTools = stateModel
+					? []
+					: agentTools.filter((tool) => requiresApproval(tool.name, toolApprovalSettings)).map((tool) => tool.name);
+				if (unapprovableTools.length > 0) {
+					throw new NodeOperationError(this.getNode(), `Tool approval needs a State Model: ${unapprovableTools.join(', ')} cannot be paused for approval`, {
+						itemIndex,
+						description: 'Without a State Model the tool-calling agent runs its tools itself. Set a State Model or remove these tools from Tools Requiring Approval.',
+					});
+				}
 
-				const callStateWorkflow = async (operation: string, content: string = '') => {
-					const inputData: IDataObject = {
-						sessionId,
-						operation,
-						content,
-					};
-
-					const result = await this.executeWorkflow(
-						{ id: stateWorkflowId },
-						[{
-							json: inputData
-						}]
-					);
-
-					if (!result?.data?.[0]?.[0]) {
-						throw new NodeOperationError(this.getNode(), 'State Management workflow returned no data', {
-							itemIndex,
-						});
-					}
-
-					return result.data[0][0].json;
+				// Every LLM attempt of the JSON steps, reported when "Include Debug Output" is on
+				const jsonAttempts: JsonStageAttempt[] = [];
+				const jsonStageOptions = {
+					clean: StatefulAIAgent.cleanJsonResponse,
+					repair: getJsonRepairSettings(this, itemIndex),
+					debug: jsonAttempts,
+					usage: usageTracker,
 				};
-
-				// Get Previous State
-				let prevState: Record<string, any> = {};
-				let state: Record<string, any> = {};
-				let stateChangedProps: string[] = [];
+				const debugOutput = this.getNodeParameter('includeDebugOutput', itemIndex, false)
+					? { debug: { jsonAttempts } }
+					: {};
 
 				if (stateModel || conversationHistory) {
-					const stateData = await callStateWorkflow("get");
-					prevState = stateData || {};
+					prevState = await stateStore.get();
+				}
+
+				// A decision on the tool calls of a paused turn resumes that turn with its user message
+				const resumedApprovals = resumeToolApprovals(this, itemIndex, prevState, toolApprovalSettings);
+				if (resumedApprovals) {
+					userMessage = resumedApprovals.message;
 				}
+				const discardedApprovals = getDiscardedToolApprovals(prevState, toolApprovalSettings);
+				const toolCache = createToolCache(this, itemIndex, prevState);
 
 				// Initialize conversation history
-				let conversationHistoryValue: Array<{ role: string; message: string }> | null = null;
+				let conversationHistoryValue: ConversationHistoryEntry[] | null = null;
+				// Tool calls of this turn, reported in "toolsInvoked" and stored with the history entry
+				const turnToolCalls: HistoryToolCall[] = [];
+				const toolRounds: ToolRound[] = [];
+				let approvalRequest: PendingToolApprovals | null = null;
+				let conversationHistoryText = '';
+				const conversationSummary = historySettings.mode === 'summary' ? getConversationSummary(prevState) : '';
 				if (conversationHistory) {
-					conversationHistoryValue = prevState.conversation_history || [];
+					conversationHistoryValue = [...getConversationHistory(prevState)];
+					conversationHistoryText = StatefulAIAgent.formatConversationHistory(
+						await selectPromptHistory(conversationHistoryValue, historySettings, llm),
+						conversationSummary,
+						historySettings.showToolCalls,
+					);
 				}
 
 				// Prepare State Model Data
@@ -564,15 +492,16 @@ export class StatefulAIAgent implements INodeType {
 					}
 
 					// Extract state model structure (including nested fields)
-					const modelFields = StatefulAIAgent.extractStateModelStructure(stateModel);
+					const modelFields = extractStateModelStructure(stateModel);
 					stateFieldDescriptions = modelFields
 						.map(field => `- ${field.path}: ${field.description}`)
 						.join("\n");
 				}
 
-				const availableToolsDesc = agentTools.length > 0
-					? agentTools.map(tool => `- ${tool.name}: ${tool.description || 'No description available'}`).join("\n")
-					: "No tools available";
+				// Tool availability rules are checked against the state of the turn so far
+				const getTurnState = () => ({ ...prevState, ...state });
+				const getTurnTools = () => getAvailableTools(agentTools, toolAvailabilityRules, getTurnState());
+				const availableToolsDesc = describeTools(getTurnTools());
 
 				const useAgent = agentTools.length > 0;
 
@@ -635,17 +564,6 @@ Return ONLY valid JSON:
 ${formatExample}`
 						: '{systemPrompt}';
 
-					const combinedPrompt = ChatPromptTemplate.fromMessages([
-						['system', systemMessageForFirstCall],
-						['human', humanMessageContent],
-					]);
-
-					const combinedChain = RunnableSequence.from([
-						combinedPrompt,
-						llm as any,
-						new StringOutputParser(),
-					]) as any;
-
 					const stateFieldsForTemplate = StatefulAIAgent.prepareStateFieldsForTemplate(stateModel, prevStateModelOnly);
 
 					const inputVariables: Record<string, any> = {
@@ -658,7 +576,7 @@ ${formatExample}`
 
 					// Only include systemPrompt when no tools (since we're using static system message when tools are attached)
 					if (!useAgent) {
-						inputVariables.systemPrompt = systemPrompt;
+						inputVariables.systemPrompt = buildSystemPrompt({ ...prevState, ...prevStateModelOnly }, null);
 					}
 
 					if (useAgent) {
@@ -666,63 +584,97 @@ ${formatExample}`
 					}
 
 					if (conversationHistory && conversationHistoryValue) {
-						inputVariables.conversation_history = StatefulAIAgent.formatConversationHistory(conversationHistoryValue);
+						inputVariables.conversation_history = conversationHistoryText;
 					}
 
-					const combinedResult = await combinedChain.invoke(inputVariables as any);
-
 					let toolsToInvoke: any[] = [];
-					try {
-						const cleanedResult = StatefulAIAgent.cleanJsonResponse(combinedResult);
-						const parsedResult = JSON.parse(cleanedResult);
-
-						stateChangedProps = StatefulAIAgent.validateAndExtractState(
-							parsedResult,
-							stateModel,
-							state,
-							prevStateModelOnly,
-							stateChangedProps,
-							isFirstRun
-						);
-
-						// Only set response from first call if no tools are attached
-						// When tools are attached, response will be generated after tools are executed
-						if (!useAgent) {
-							response = parsedResult.response || "";
-						}
+					if (resumedApprovals) {
+						// The state analysis ran in the paused turn
+						state = JSON.parse(JSON.stringify(prevStateModelOnly));
+						toolsToInvoke = resumedApprovals.tools;
+					} else {
+						try {
+							const parsedResult = await invokeJsonStage(
+								useAgent ? extractionLlm : llm,
+								attachImages(getStagePrompt(
+									this,
+									itemIndex,
+									agentPromptStages.stateAnalysis,
+									{ system: systemMessageForFirstCall, human: humanMessageContent },
+									inputVariables,
+								), images),
+								inputVariables,
+								buildStageOutputSchema(stateModel, stateSchema, { tools: useAgent, response: !useAgent }),
+								{ ...jsonStageOptions, stage: 'state_analysis' },
+							);
+
+							stateChangedProps = StatefulAIAgent.validateAndExtractState(
+								parsedResult,
+								stateModel,
+								state,
+								prevStateModelOnly,
+								stateChangedProps,
+								isFirstRun
+							);
+
+							enforceStateSchema(stateSchema, state, prevState, stateChangedProps, validationErrors);
+
+							// Only set response from first call if no tools are attached
+							// When tools are attached, response will be generated after tools are executed
+							if (!useAgent) {
+								response = parsedResult.response || "";
+							}
 
-						if (useAgent) {
-							toolsToInvoke = parsedResult.tools_to_invoke || [];
+							if (useAgent) {
+								toolsToInvoke = parsedResult.tools_to_invoke || [];
 
-							if (!Array.isArray(toolsToInvoke)) {
-								toolsToInvoke = [];
+								if (!Array.isArray(toolsToInvoke)) {
+									toolsToInvoke = [];
+								}
 							}
-						}
 
-					} catch (error) {
-						throw new Error(`Failed to parse combined JSON: ${error.message}`);
+						} catch (error) {
+							throw new Error(`Failed to parse combined JSON: ${error.message}`);
+						}
 					}
 
 					if (toolsToInvoke.length > 0) {
-						const { invokedToolNames, toolResults } = await StatefulAIAgent.invokeTools(toolsToInvoke, agentTools, stateModel, state, stateChangedProps);
-
-						if (invokedToolNames.length > 0) {
-							// Combined post-tool analysis: Update state AND generate response in a single LLM call
-							const toolResultsSummary = toolResults.map(result =>
-								`Tool: ${result.tool_name}
+						// Every round runs the requested tools, then the post-tool step may request more
+						const toolRoundsResult = await runToolRounds(toolsToInvoke, {
+							ctx: this,
+							itemIndex,
+							llm: extractionLlm,
+							inputCorrectionStage: agentPromptStages.toolInputCorrection,
+							jsonStageOptions,
+							message: userMessage,
+							tools: agentTools,
+							stateModel,
+							prevState,
+							state,
+							stateChangedProps,
+							runSettings: toolRunSettings,
+							availabilityRules: toolAvailabilityRules,
+							mappings: toolResultMappings,
+							approvalSettings: toolApprovalSettings,
+							cache: toolCache,
+							resumed: resumedApprovals,
+							postToolStep: async ({ results, canRequestTools, availableTools }) => {
+								// Combined post-tool analysis: Update state AND generate response in a single LLM call
+								const toolResultsSummary = results.map(result =>
+									`Tool: ${result.tool_name}
 Target State Field: ${result.state_field || 'not specified'}
 Result: ${JSON.stringify(result.result || result.error, null, 2)}`
-							).join('\n\n');
+								).join('\n\n');
 
-							// Extract state model structure (including nested fields)
-							const modelFields = StatefulAIAgent.extractStateModelStructure(stateModel);
-							const stateModelStructureDesc = modelFields
-								.map(field => `- ${field.path}: ${field.description}`)
-								.join('\n');
-							const stateModelStructureJson = JSON.stringify(stateModel, null, 2);
+								// Extract state model structure (including nested fields)
+								const modelFields = extractStateModelStructure(stateModel);
+								const stateModelStructureDesc = modelFields
+									.map(field => `- ${field.path}: ${field.description}`)
+									.join('\n');
+								const stateModelStructureJson = JSON.stringify(stateModel, null, 2);
 
-							// Build the human message content for post-tool analysis
-							const postToolHumanMessageContent = `State Model Structure:
+								// Build the human message content for post-tool analysis
+								const postToolHumanMessageContent = `State Model Structure:
 {stateModelStructure}
 
 State Fields:
@@ -747,81 +699,70 @@ Rules:
 - Map tool results to correct state fields
 - Preserve nested structure
 - Provide natural response
-
+${canRequestTools ? `\n${TOOL_ROUND_INSTRUCTIONS}\n` : ''}
 Return ONLY valid JSON:
 {{
   "state": {{ /* exact state model structure */ }},
   "response": "Your response"
 }}`;
 
-							const postToolCombinedPrompt = ChatPromptTemplate.fromMessages([
-								['system', '{systemPrompt}'],
-								['human', postToolHumanMessageContent],
-							]);
-
-							const postToolCombinedChain = RunnableSequence.from([
-								postToolCombinedPrompt,
-								llm as any,
-								new StringOutputParser(),
-							]) as any;
-
-							const toolsInvokedDesc = invokedToolNames
-								.map((name, idx) => `${idx + 1}. ${name}`)
-								.join('\n');
-
-							const stateModelFields = StatefulAIAgent.prepareStateFieldsForTemplate(stateModel, state);
-
-							const postToolCombinedInput: Record<string, any> = {
-								systemPrompt: systemPrompt,
-								user_message: userMessage,
-								stateModelStructure: stateModelStructureJson,
-								stateFields: stateModelStructureDesc,
-								currentState: JSON.stringify(state, null, 2),
-								toolResults: toolResultsSummary,
-								toolsInvoked: toolsInvokedDesc,
-								...stateModelFields
-							};
-
-							if (conversationHistory && conversationHistoryValue) {
-								postToolCombinedInput.conversation_history = StatefulAIAgent.formatConversationHistory(conversationHistoryValue);
-							}
-
-							const postToolCombinedResult = await postToolCombinedChain.invoke(postToolCombinedInput as any);
-
-							try {
-								const cleanedResult = StatefulAIAgent.cleanJsonResponse(postToolCombinedResult);
-								const parsedResult = JSON.parse(cleanedResult);
-
-								// Update state with properly merged values
-								if (parsedResult.state) {
-									const mergedState = StatefulAIAgent.mergeStateWithModel(parsedResult.state, stateModel, state);
-
-									for (const key of Object.keys(stateModel)) {
-										const prevValue = state[key];
-										const newValue = mergedState[key];
-										if (JSON.stringify(prevValue) !== JSON.stringify(newValue)) {
-											state[key] = newValue;
-											if (!stateChangedProps.includes(key)) {
-												stateChangedProps.push(key);
-											}
-										}
-									}
+								const toolsInvokedDesc = results
+									.filter((result) => result.error === undefined)
+									.map((result, idx) => `${idx + 1}. ${result.tool_name}`)
+									.join('\n');
+
+								const stateModelFields = StatefulAIAgent.prepareStateFieldsForTemplate(stateModel, state);
+
+								const postToolCombinedInput: Record<string, any> = {
+									systemPrompt: buildSystemPrompt(state, state),
+									user_message: userMessage,
+									stateModelStructure: stateModelStructureJson,
+									stateFields: stateModelStructureDesc,
+									currentState: JSON.stringify(state, null, 2),
+									toolResults: toolResultsSummary,
+									toolsInvoked: toolsInvokedDesc,
+									...(availableTools !== undefined ? { availableTools } : {}),
+									...stateModelFields
+								};
+
+								if (conversationHistory && conversationHistoryValue) {
+									postToolCombinedInput.conversation_history = conversationHistoryText;
 								}
 
+								const parsedResult = await invokeJsonStage(
+									llm,
+									attachImages(getStagePrompt(
+										this,
+										itemIndex,
+										agentPromptStages.postToolState,
+										{ system: '{systemPrompt}', human: postToolHumanMessageContent },
+										postToolCombinedInput,
+									), images),
+									postToolCombinedInput,
+									buildStageOutputSchema(stateModel, stateSchema, { response: true, tools: canRequestTools }),
+									{ ...jsonStageOptions, stage: 'post_tool_state' },
+								);
+
 								// Update response
 								if (parsedResult.response) {
 									response = parsedResult.response;
 								}
-							} catch (error) {
-								// If post-tool analysis fails, continue with current state and response
-							}
-						}
+
+								return {
+									state: parsedResult.state,
+									toolsToInvoke: canRequestTools ? getRequestedTools(parsedResult) : [],
+								};
+							},
+						});
+						turnToolCalls.push(...toolRoundsResult.results);
+						toolRounds.push(...toolRoundsResult.rounds);
+						approvalRequest = toolRoundsResult.approvalRequest;
 					} else if (useAgent && toolsToInvoke.length === 0) {
 						// Tools are attached but no tools were requested - generate response now
 						const stateFieldsForPrompt = StatefulAIAgent.prepareStateFieldsForTemplate(stateModel, state);
 
 						// Extract state model structure (including nested fields)
-						const modelFields = StatefulAIAgent.extractStateModelStructure(stateModel);
+						const modelFields = extractStateModelStructure(stateModel);
 						const stateModelStructureDesc = modelFields
 							.map(field => `- ${field.path}: ${field.description}`)
 							.join('\n');
@@ -838,19 +779,8 @@ ${conversationHistory ? `Previous Conversation:
 
 Provide a helpful and natural response.`;
 
-						const responsePrompt = ChatPromptTemplate.fromMessages([
-							['system', '{systemPrompt}'],
-							['human', responseHumanMessageContent],
-						]);
-
-						const responseChain = RunnableSequence.from([
-							responsePrompt,
-							llm as any,
-							new StringOutputParser(),
-						]) as any;
-
 						const responseInput: Record<string, any> = {
-							systemPrompt: systemPrompt,
+							systemPrompt: buildSystemPrompt(state, state),
 							user_message: userMessage,
 							stateFields: stateModelStructureDesc,
 							currentState: JSON.stringify(state, null, 2),
@@ -858,10 +788,22 @@ Provide a helpful and natural response.`;
 						};
 
 						if (conversationHistory && conversationHistoryValue) {
-							responseInput.conversation_history = StatefulAIAgent.formatConversationHistory(conversationHistoryValue);
+							responseInput.conversation_history = conversationHistoryText;
 						}
 
-						response = await responseChain.invoke(responseInput as any);
+						const responseChain = RunnableSequence.from([
+							attachImages(getStagePrompt(
+								this,
+								itemIndex,
+								agentPromptStages.response,
+								{ system: '{systemPrompt}', human: responseHumanMessageContent },
+								responseInput,
+							), images),
+							llm as any,
+							new StringOutputParser(),
+						]) as any;
+
+						response = await responseChain.invoke(responseInput as any, { callbacks: usageTracker.callbacks('response', llm) });
 					}
 
 				} else if (stateModel && !singlePromptStateTracking) {
@@ -906,21 +848,11 @@ ${useAgent ? `Available Tools:
 
 Analyze the user message and extract any information that matches the state field descriptions. If the user is providing information in response to a question, map it to the appropriate state field.`;
 
-					const stateAnalysisPrompt = ChatPromptTemplate.fromMessages([
-						['system', stateAnalysisSystemMessage],
-						['human', stateAnalysisHumanMessage],
-					]);
-
-					const stateAnalysisChain = RunnableSequence.from([
-						stateAnalysisPrompt,
-						llm as any,
-						new StringOutputParser(),
-					]) as any;
-
 					const stateAnalysisInput: Record<string, any> = {
 						stateFields: stateFieldDescriptions,
 						currentState: Object.keys(prevStateModelOnly).length > 0 ? JSON.stringify(prevStateModelOnly, null, 2) : "{}",
 						userMessage: userMessage,
+						user_message: userMessage,
 					};
 
 					if (useAgent) {
@@ -928,62 +860,96 @@ Analyze the user message and extract any information that matches the state fiel
 					}
 
 					if (conversationHistory && conversationHistoryValue) {
-						stateAnalysisInput.conversation_history = StatefulAIAgent.formatConversationHistory(conversationHistoryValue);
+						stateAnalysisInput.conversation_history = conversationHistoryText;
 					}
 
-					const stateAnalysisResult = await stateAnalysisChain.invoke(stateAnalysisInput as any);
-
 					let toolsToInvoke: any[] = [];
-					try {
-						const cleanedResult = StatefulAIAgent.cleanJsonResponse(stateAnalysisResult);
-						const parsedResult = JSON.parse(cleanedResult);
-
-						stateChangedProps = StatefulAIAgent.validateAndExtractState(
-							parsedResult,
-							stateModel,
-							state,
-							prevStateModelOnly,
-							stateChangedProps,
-							isFirstRun
-						);
-
-						if (useAgent) {
-							toolsToInvoke = parsedResult.tools_to_invoke || [];
-
-							if (!Array.isArray(toolsToInvoke)) {
-								toolsToInvoke = [];
+					if (resumedApprovals) {
+						// The state analysis ran in the paused turn
+						state = JSON.parse(JSON.stringify(prevStateModelOnly));
+						toolsToInvoke = resumedApprovals.tools;
+					} else {
+						try {
+							const parsedResult = await invokeJsonStage(
+								extractionLlm,
+								attachImages(getStagePrompt(
+									this,
+									itemIndex,
+									agentPromptStages.stateAnalysis,
+									{ system: stateAnalysisSystemMessage, human: stateAnalysisHumanMessage },
+									stateAnalysisInput,
+								), images),
+								stateAnalysisInput,
+								buildStageOutputSchema(stateModel, stateSchema, { tools: useAgent }),
+								{ ...jsonStageOptions, stage: 'state_analysis' },
+							);
+
+							stateChangedProps = StatefulAIAgent.validateAndExtractState(
+								parsedResult,
+								stateModel,
+								state,
+								prevStateModelOnly,
+								stateChangedProps,
+								isFirstRun
+							);
+
+							enforceStateSchema(stateSchema, state, prevState, stateChangedProps, validationErrors);
+
+							if (useAgent) {
+								toolsToInvoke = parsedResult.tools_to_invoke || [];
+
+								if (!Array.isArray(toolsToInvoke)) {
+									toolsToInvoke = [];
+								}
 							}
-						}
 
-					} catch (error) {
-						throw new Error(`Failed to parse state analysis JSON: ${error.message}`);
+						} catch (error) {
+							throw new Error(`Failed to parse state analysis JSON: ${error.message}`);
+						}
 					}
 
 					if (toolsToInvoke.length > 0) {
-						const { invokedToolNames, toolResults } = await StatefulAIAgent.invokeTools(toolsToInvoke, agentTools, stateModel, state, stateChangedProps);
-
-						if (invokedToolNames.length > 0) {
-							// Case 4: Tools attached + single prompt disabled
-							// Separate calls: 1) Update state, 2) Generate response
-							const toolResultsSummary = toolResults.map(result =>
-								`Tool: ${result.tool_name}
+						// Every round runs the requested tools, then the post-tool step may request more
+						const toolRoundsResult = await runToolRounds(toolsToInvoke, {
+							ctx: this,
+							itemIndex,
+							llm: extractionLlm,
+							inputCorrectionStage: agentPromptStages.toolInputCorrection,
+							jsonStageOptions,
+							message: userMessage,
+							tools: agentTools,
+							stateModel,
+							prevState,
+							state,
+							stateChangedProps,
+							runSettings: toolRunSettings,
+							availabilityRules: toolAvailabilityRules,
+							mappings: toolResultMappings,
+							approvalSettings: toolApprovalSettings,
+							cache: toolCache,
+							resumed: resumedApprovals,
+							postToolStep: async ({ results, canRequestTools, availableTools }) => {
+								// Case 4: Tools attached + single prompt disabled
+								// Separate calls: 1) Update state, 2) Generate response
+								const toolResultsSummary = results.map(result =>
+									`Tool: ${result.tool_name}
 Target State Field: ${result.state_field || 'not specified'}
 Result: ${JSON.stringify(result.result || result.error, null, 2)}`
-							).join('\n\n');
-
-							// Extract state model structure (including nested fields)
-							const modelFields = StatefulAIAgent.extractStateModelStructure(stateModel);
-							const stateModelStructureDesc = modelFields
-								.map(field => `- ${field.path}: ${field.description}`)
-								.join('\n');
-							const stateModelStructureJson = JSON.stringify(stateModel, null, 2);
-
-							// Call 1: Post-tool state update
-							// Build the format example separately to avoid brace conflicts
-							// Escape braces by doubling them for ChatPromptTemplate
-							const postToolStateFormatExample = stateModelStructureJson.replace(/\{/g, '{{').replace(/\}/g, '}}');
-							
-							const postToolStateSystemMessage = `Update state from tool results to EXACTLY match state model structure.
+								).join('\n\n');
+
+								// Extract state model structure (including nested fields)
+								const modelFields = extractStateModelStructure(stateModel);
+								const stateModelStructureDesc = modelFields
+									.map(field => `- ${field.path}: ${field.description}`)
+									.join('\n');
+								const stateModelStructureJson = JSON.stringify(stateModel, null, 2);
+
+								// Call 1: Post-tool state update
+								// Build the format example separately to avoid brace conflicts
+								// Escape braces by doubling them for ChatPromptTemplate
+								const postToolStateFormatExample = stateModelStructureJson.replace(/\{/g, '{{').replace(/\}/g, '}}');
+								
+								const postToolStateSystemMessage = `Update state from tool results to EXACTLY match state model structure.
 
 Rules:
 - Return state object matching EXACT state model structure
@@ -992,9 +958,9 @@ Rules:
 - Preserve nested structure
 - Only include fields in state model
 
-Return ONLY valid JSON matching state model structure.`;
+Return ONLY valid JSON${canRequestTools ? '' : ' matching state model structure'}.`;
 
-							const postToolStateHumanMessage = `State Model Structure:
+								const postToolStateHumanMessage = `State Model Structure:
 {stateModelStructure}
 
 State Fields:
@@ -1008,175 +974,142 @@ Tool Results:
 
 User: {userMessage}
 
-Format:
-${postToolStateFormatExample}`;
-
-							const postToolStatePrompt = ChatPromptTemplate.fromMessages([
-								['system', postToolStateSystemMessage],
-								['human', postToolStateHumanMessage],
-							]);
-
-							const postToolStateChain = RunnableSequence.from([
-								postToolStatePrompt,
-								llm as any,
-								new StringOutputParser(),
-							]) as any;
-
-							const postToolStateResult = await postToolStateChain.invoke({
-								stateModelStructure: stateModelStructureJson,
-								stateFields: stateModelStructureDesc,
-								currentState: JSON.stringify(state, null, 2),
-								toolResults: toolResultsSummary,
-								userMessage: userMessage,
-							});
-
-							try {
-								const cleanedResult = StatefulAIAgent.cleanJsonResponse(postToolStateResult);
-								const updatedState = JSON.parse(cleanedResult);
-
-								// Strictly merge state with model - only allow fields in state model
-								const mergedState = StatefulAIAgent.mergeStateWithModel(updatedState, stateModel, state);
-
-								// Update state with properly merged values
-								for (const key of Object.keys(stateModel)) {
-									const prevValue = state[key];
-									const newValue = mergedState[key];
-									if (JSON.stringify(prevValue) !== JSON.stringify(newValue)) {
-										state[key] = newValue;
-										if (!stateChangedProps.includes(key)) {
-											stateChangedProps.push(key);
-										}
-									}
-								}
-							} catch (error) {
-								// If post-tool analysis fails, continue with current state
-							}
+${canRequestTools ? TOOL_ROUND_INSTRUCTIONS : `Format:
+${postToolStateFormatExample}`}`;
+
+								const postToolStateInput: Record<string, any> = {
+									stateModelStructure: stateModelStructureJson,
+									stateFields: stateModelStructureDesc,
+									currentState: JSON.stringify(state, null, 2),
+									toolResults: toolResultsSummary,
+									userMessage: userMessage,
+									user_message: userMessage,
+									...(availableTools !== undefined ? { availableTools } : {}),
+								};
+
+								const postToolResult = await invokeJsonStage(
+									extractionLlm,
+									attachImages(getStagePrompt(
+										this,
+										itemIndex,
+										agentPromptStages.postToolState,
+										{ system: postToolStateSystemMessage, human: postToolStateHumanMessage },
+										postToolStateInput,
+									), images),
+									postToolStateInput,
+									canRequestTools
+										? buildStageOutputSchema(stateModel, stateSchema, { tools: true })
+										: buildStateOutputSchema(stateModel, stateSchema),
+									{ ...jsonStageOptions, stage: 'post_tool_state' },
+								);
+								return readPostToolResult(postToolResult, canRequestTools);
+							},
+						});
+						turnToolCalls.push(...toolRoundsResult.results);
+						toolRounds.push(...toolRoundsResult.rounds);
+						approvalRequest = toolRoundsResult.approvalRequest;
 
+						if (approvalRequest) {
+							// The response is generated once the waiting calls are decided
+						} else if (toolRoundsResult.results.some((result) => result.error === undefined)) {
 							// Call 2: Generate response based on updated state
-							const stateFieldsForPrompt = StatefulAIAgent.prepareStateFieldsForTemplate(stateModel, state);
-
-							// Prepare input object for template parsing (includes state fields and full state for nested access)
-							const templateInput: Record<string, any> = {
-								...state,
-								...stateFieldsForPrompt
-							};
-
-							// Parse systemPrompt with nested properties and object stringification
-							const processedSystemPrompt = StatefulAIAgent.parseTemplateWithNestedProps(systemPrompt, templateInput);
-
 							const responseHumanMessageContent = `${conversationHistory ? `Previous Conversation:
 {conversation_history}
 ` : ''}User: {user_message}
 
 Respond naturally.`;
 
-							const responsePrompt = ChatPromptTemplate.fromMessages([
-								['system', processedSystemPrompt],
-								['human', responseHumanMessageContent],
-							]);
-
-							const responseChain = RunnableSequence.from([
-								responsePrompt,
-								llm as any,
-								new StringOutputParser(),
-							]) as any;
-
 							const responseInput: Record<string, any> = {
+								systemPrompt: buildSystemPrompt(state, state),
 								user_message: userMessage,
 							};
 
 							if (conversationHistory && conversationHistoryValue) {
-								responseInput.conversation_history = StatefulAIAgent.formatConversationHistory(conversationHistoryValue);
+								responseInput.conversation_history = conversationHistoryText;
 							}
 
-							response = await responseChain.invoke(responseInput as any);
+							const responseChain = RunnableSequence.from([
+								attachImages(getStagePrompt(
+									this,
+									itemIndex,
+									agentPromptStages.response,
+									{ system: '{systemPrompt}', human: responseHumanMessageContent },
+									responseInput,
+								), images),
+								llm as any,
+								new StringOutputParser(),
+							]) as any;
+
+							response = await responseChain.invoke(responseInput as any, { callbacks: usageTracker.callbacks('response', llm) });
 						} else {
 							// Generate response using system_prompt with state variables
-							const stateFieldsForPrompt = StatefulAIAgent.prepareStateFieldsForTemplate(stateModel, state);
-
-							// Prepare input object for template parsing (includes state fields and full state for nested access)
-							const templateInput: Record<string, any> = {
-								...state,
-								...stateFieldsForPrompt
-							};
-
-							// Parse systemPrompt with nested properties and object stringification
-							const processedSystemPrompt = StatefulAIAgent.parseTemplateWithNestedProps(systemPrompt, templateInput);
-
 							const responseHumanMessageContent = `${conversationHistory ? `Previous Conversation:
 {conversation_history}
 ` : ''}User: {user_message}
 
 Respond naturally.`;
 
-							const responsePrompt = ChatPromptTemplate.fromMessages([
-								['system', processedSystemPrompt],
-								['human', responseHumanMessageContent],
-							]);
-
-							const responseChain = RunnableSequence.from([
-								responsePrompt,
-								llm as any,
-								new StringOutputParser(),
-							]) as any;
-
 							const responseInput: Record<string, any> = {
+								systemPrompt: buildSystemPrompt(state, state),
 								user_message: userMessage,
 							};
 
 							if (conversationHistory && conversationHistoryValue) {
-								responseInput.conversation_history = StatefulAIAgent.formatConversationHistory(conversationHistoryValue);
+								responseInput.conversation_history = conversationHistoryText;
 							}
 
-							response = await responseChain.invoke(responseInput as any);
+							const responseChain = RunnableSequence.from([
+								attachImages(getStagePrompt(
+									this,
+									itemIndex,
+									agentPromptStages.response,
+									{ system: '{systemPrompt}', human: responseHumanMessageContent },
+									responseInput,
+								), images),
+								llm as any,
+								new StringOutputParser(),
+							]) as any;
+
+							response = await responseChain.invoke(responseInput as any, { callbacks: usageTracker.callbacks('response', llm) });
 						}
 					} else {
 						// Case 2: No tools + single prompt disabled
 						// Generate response using system_prompt with state variables
-						const stateFieldsForPrompt = StatefulAIAgent.prepareStateFieldsForTemplate(stateModel, state);
-
-						// Prepare input object for template parsing (includes state fields and full state for nested access)
-						const templateInput: Record<string, any> = {
-							...state,
-							...stateFieldsForPrompt
-						};
-
-						// Parse systemPrompt with nested properties and object stringification
-						const processedSystemPrompt = StatefulAIAgent.parseTemplateWithNestedProps(systemPrompt, templateInput);
-
 						const responseHumanMessageContent = `${conversationHistory ? `Previous Conversation:
 {conversation_history}
 ` : ''}User: {user_message}
 
 Provide a helpful and natural response.`;
 
-						const responsePrompt = ChatPromptTemplate.fromMessages([
-							['system', processedSystemPrompt],
-							['human', responseHumanMessageContent],
-						]);
-
-						const responseChain = RunnableSequence.from([
-							responsePrompt,
-							llm as any,
-							new StringOutputParser(),
-						]) as any;
-
 						const responseInput: Record<string, any> = {
+							systemPrompt: buildSystemPrompt(state, state),
 							user_message: userMessage,
 						};
 
 						if (conversationHistory && conversationHistoryValue) {
-							responseInput.conversation_history = StatefulAIAgent.formatConversationHistory(conversationHistoryValue);
+							responseInput.conversation_history = conversationHistoryText;
 						}
 
-						response = await responseChain.invoke(responseInput as any);
+						const responseChain = RunnableSequence.from([
+							attachImages(getStagePrompt(
+								this,
+								itemIndex,
+								agentPromptStages.response,
+								{ system: '{systemPrompt}', human: responseHumanMessageContent },
+								responseInput,
+							), images),
+							llm as any,
+							new StringOutputParser(),
+						]) as any;
+
+						response = await responseChain.invoke(responseInput as any, { callbacks: usageTracker.callbacks('response', llm) });
 					}
 
 				} else {
 					// Simple Path: No state_model (just response generation)
 					const stateForTemplate: Record<string, any> = {};
 					for (const [key, value] of Object.entries(state)) {
-						if (key !== 'conversation_history') {
+						if (key !== 'conversation_history' && key !== 'conversation_summary') {
 							stateForTemplate[key] = (value === null || value === undefined) ? "" : value;
 						}
 					}
@@ -1187,13 +1120,14 @@ Provide a helpful and natural response.`;
 					};
 
 					if (conversationHistory && conversationHistoryValue) {
-						inputVariables.conversation_history = StatefulAIAgent.formatConversationHistory(conversationHistoryValue);
+						inputVariables.conversation_history = conversationHistoryText;
 					}
 
 					// Add systemPrompt to inputVariables for all cases
-					inputVariables.systemPrompt = systemPrompt;
+					inputVariables.systemPrompt = buildSystemPrompt(prevState, null);
 
-					if (useAgent) {
+					const executorTools = getTurnTools();
+					if (executorTools.length > 0) {
 						const agentHumanMessageContent = `${conversationHistory ? `Previous Conversation:
 {conversation_history}
 ` : ''}You have access to tools. Use them when needed.
@@ -1204,29 +1138,36 @@ Think step-by-step and use tools when helpful.
 
 {agent_scratchpad}`;
 
-						const agentPrompt = ChatPromptTemplate.fromMessages([
+						const agentPrompt = attachImages(ChatPromptTemplate.fromMessages([
 							['system', '{systemPrompt}'],
 							['human', agentHumanMessageContent],
-						]);
+						]), images);
 
 						try {
 							const agent = await createToolCallingAgent({
 								llm: llm as any,
-								tools: agentTools,
+								tools: executorTools,
 								prompt: agentPrompt as any,
 							});
 
 							const agentExecutorConfig: Record<string, any> = {
 								agent,
-								tools: agentTools,
+								tools: executorTools,
 								verbose: true,
 								maxIterations: 10,
-								returnIntermediateSteps: false,
+								returnIntermediateSteps: true,
 							};
 
 							const agentExecutor = new AgentExecutor(agentExecutorConfig as any);
-							const result = await agentExecutor.invoke(inputVariables as any);
+							const result = await agentExecutor.invoke(inputVariables as any, { callbacks: usageTracker.callbacks('agent', llm) });
 							response = result.output;
+							for (const step of result.intermediateSteps ?? []) {
+								turnToolCalls.push({
+									tool_name: step.action?.tool,
+									input: step.action?.toolInput,
+									result: step.observation,
+								});
+							}
 						} catch (error) {
 							throw new Error(`Agent failed: ${error.message}`);
 						}
@@ -1237,10 +1178,10 @@ Think step-by-step and use tools when helpful.
 
 Respond naturally.`;
 
-						const simplePrompt = ChatPromptTemplate.fromMessages([
+						const simplePrompt = attachImages(ChatPromptTemplate.fromMessages([
 							['system', '{systemPrompt}'],
 							['human', simpleHumanMessageContent],
-						]);
+						]), images);
 
 						const chain = RunnableSequence.from([
 							simplePrompt,
@@ -1248,42 +1189,114 @@ Respond naturally.`;
 							new StringOutputParser(),
 						]) as any;
 
-						inputVariables.systemPrompt = systemPrompt;
-						response = await chain.invoke(inputVariables as any);
+						response = await chain.invoke(inputVariables as any, { callbacks: usageTracker.callbacks('response', llm) });
 					}
 				}
 
+				// Tool results and post-tool updates are validated as well
+				enforceStateSchema(stateSchema, state, prevState, stateChangedProps, validationErrors);
+
+				let completionStatus: CompletionStatus | null = null;
+				if (requiredFields.length > 0) {
+					completionStatus = updateCompletionStatus(requiredFields, state, prevState, stateChangedProps);
+				}
+
 				// Update Conversation History
 				if (conversationHistory && conversationHistoryValue) {
-					conversationHistoryValue.push({
-						role: "user",
-						message: userMessage
-					});
+					const turnChangedProps = stateChangedProps.filter(prop => prop !== 'conversation_history');
 
-					conversationHistoryValue.push({
-						role: "assistant",
-						message: response
-					});
+					// A paused turn is added once it is resumed
+					if (!approvalRequest) {
+						conversationHistoryValue.push(createHistoryEntry("user", userMessage, historySettings));
+
+						conversationHistoryValue.push(createHistoryEntry("assistant", response, historySettings, {
+							toolCalls: turnToolCalls,
+							stateChangedProps: turnChangedProps,
+						}));
+					}
 
 					state.conversation_history = conversationHistoryValue;
 
 					if (!stateChangedProps.includes('conversation_history')) {
 						stateChangedProps.push('conversation_history');
 					}
+
+					if (conversationSummary) {
+						state.conversation_summary = conversationSummary;
+					}
+
+					const { evicted, kept } = splitTurnsToSummarize(conversationHistoryValue, historySettings);
+					if (evicted.length > 0) {
+						try {
+							state.conversation_summary = await updateConversationSummary(
+								this,
+								itemIndex,
+								extractionLlm,
+								conversationSummary,
+								evicted,
+								usageTracker,
+							);
+							state.conversation_history = kept;
+							if (!stateChangedProps.includes('conversation_summary')) {
+								stateChangedProps.push('conversation_summary');
+							}
+						} catch (error) {
+							// The turns stay in the history and are summarized with the next turn
+							if (error instanceof NodeOperationError) {
+								throw error;
+							}
+						}
+					}
 				}
 
+				updatePendingToolApprovals(state, prevState, stateChangedProps, approvalRequest);
+				toolCache?.store(state, prevState, stateChangedProps);
+
 				// Save State
-				if ((stateModel || conversationHistory) && stateChangedProps.length > 0) {
-					await callStateWorkflow("set", JSON.stringify(state));
+				let writeConflicts: StateWriteConflict[] = [];
+				let historyOverflow: ConversationHistoryEntry[] = [];
+				// With state history, turns without changes are saved too so they are counted.
+				// A resumed turn keeps the number of the paused turn.
+				const historyHook = getStateHistoryHook(this, itemIndex, userMessage, !resumedApprovals);
+				if ((stateModel || conversationHistory) && (stateChangedProps.length > 0 || historyHook)) {
+					const committed = await commitState(
+						this,
+						itemIndex,
+						stateStore,
+						prevState,
+						state,
+						stateChangedProps,
+						combinePrepareHooks(
+							historyHook,
+							conversationHistory
+								? getHistoryTrimHook(historySettings, (entries) => { historyOverflow = entries; })
+								: undefined,
+						),
+					);
+					state = committed.state;
+					writeConflicts = committed.conflicts;
+				}
+
+				if (conversationHistory && historySettings.overflowPolicy === 'archive') {
+					await archiveConversationHistory(this, itemIndex, sessionId, historyOverflow);
 				}
 
 				// Return output
-				returnData.push({
+				(approvalRequest ? approvalData : returnData).push({
 					json: {
 						response: response,
 						state: state,
 						prevState: prevState,
 						stateChangedProps: stateChangedProps,
+						toolsInvoked: turnToolCalls,
+						toolRounds: toolRounds,
+						...(approvalRequest ? { pendingToolApprovals: approvalRequest } : {}),
+						...(discardedApprovals ? { discardedToolApprovals: discardedApprovals } : {}),
+						validationErrors: validationErrors,
+						writeConflicts: writeConflicts,
+						usage: usageTracker.getSummary(),
+						...debugOutput,
+						...(completionStatus ?? {}),
 					},
 					pairedItem: itemIndex,
 				});
@@ -1307,6 +1320,6 @@ Respond naturally.`;
 			}
 		}
 
-		return [returnData];
+		return [returnData, approvalData];
 	}
 }
@@ -0,0 +1,489 @@
+import type { IDataObject, IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { randomUUID } from 'crypto';
+import { RunnableSequence } from '@langchain/core/runnables';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import { agentPromptStages, getStagePrompt } from './PromptOverrides';
+import { commitState, getStateStore } from './StateStorage';
+import type { StatePrepareHook } from './StateStorage';
+import type { UsageTracker } from './UsageTracker';
+
+export const CONVERSATION_HISTORY_KEY = 'conversation_history';
+export const CONVERSATION_SUMMARY_KEY = 'conversation_summary';
+
+export interface HistoryToolCall {
+	tool_name: string;
+	input: any;
+	result?: any;
+	error?: string;
+}
+
+export interface ConversationHistoryEntry {
+	role: string;
+	message: string;
+	// Only set with "Detailed History Entries"
+	id?: string;
+	timestamp?: string;
+	tool_calls?: HistoryToolCall[];
+	state_changed_props?: string[];
+}
+
+export type HistoryOverflowPolicy = 'drop' | 'archive';
+
+export type ConversationHistoryMode = 'window' | 'summary';
+
+export interface ConversationHistorySettings {
+	mode: ConversationHistoryMode;
+	summaryTriggerTurns: number;
+	summaryKeepTurns: number;
+	maxPromptTurns: number;
+	maxPromptTokens: number;
+	tokenCounter: 'model' | 'estimate';
+	maxPersistedTurns: number;
+	overflowPolicy: HistoryOverflowPolicy;
+	detailedEntries: boolean;
+	maxToolResultLength: number;
+	showToolCalls: boolean;
+}
+
+const showWithHistory = {
+	show: {
+		conversationHistory: [true],
+	},
+};
+
+export const conversationHistoryProperties: INodeProperties[] = [
+	{
+		displayName: 'History Mode',
+		name: 'historyMode',
+		type: 'options',
+		options: [
+			{
+				name: 'Recent Turns',
+				value: 'window',
+				description: 'Keep the transcript and limit it with the options below',
+			},
+			{
+				name: 'Summary + Recent Turns',
+				value: 'summary',
+				description: 'Condense older turns into "conversation_summary" with the LLM and keep only the recent turns',
+			},
+		],
+		default: 'window',
+		displayOptions: showWithHistory,
+		description: 'How the conversation history is kept once it gets long',
+	},
+	{
+		displayName: 'Summarize After Turns',
+		name: 'summaryTriggerTurns',
+		type: 'number',
+		default: 10,
+		typeOptions: {
+			minValue: 1,
+		},
+		displayOptions: {
+			show: {
+				conversationHistory: [true],
+				historyMode: ['summary'],
+			},
+		},
+		description: 'The oldest turns are summarized once the history holds more turns than this',
+	},
+	{
+		displayName: 'Recent Turns to Keep',
+		name: 'summaryKeepTurns',
+		type: 'number',
+		default: 4,
+		typeOptions: {
+			minValue: 0,
+		},
+		displayOptions: {
+			show: {
+				conversationHistory: [true],
+				historyMode: ['summary'],
+			},
+		},
+		description: 'How many of the latest turns stay in "conversation_history" word for word when the older ones are summarized. Must be lower than Summarize After Turns.',
+	},
+	{
+		displayName: 'Max History Turns in Prompt',
+		name: 'maxHistoryTurnsInPrompt',
+		type: 'number',
+		default: 0,
+		typeOptions: {
+			minValue: 0,
+		},
+		displayOptions: showWithHistory,
+		description: 'How many of the latest turns (a user message and the replies to it) are added to the prompts. Use 0 for all turns.',
+	},
+	{
+		displayName: 'Max History Tokens',
+		name: 'maxHistoryTokens',
+		type: 'number',
+		default: 0,
+		typeOptions: {
+			minValue: 0,
+		},
+		displayOptions: showWithHistory,
+		description: 'Token budget of the history in the prompts. The oldest turns are left out until the history fits. Use 0 for no limit.',
+	},
+	{
+		displayName: 'History Token Counter',
+		name: 'historyTokenCounter',
+		type: 'options',
+		options: [
+			{
+				name: 'Estimate',
+				value: 'estimate',
+				description: 'About four characters per token, no extra work',
+			},
+			{
+				name: "Model's Tokenizer",
+				value: 'model',
+				description: 'Count with the tokenizer of the connected chat model where it has one',
+			},
+		],
+		default: 'estimate',
+		displayOptions: {
+			show: {
+				conversationHistory: [true],
+			},
+			hide: {
+				maxHistoryTokens: [0],
+			},
+		},
+		description: 'How the tokens of the history are counted for Max History Tokens',
+	},
+	{
+		displayName: 'Max Persisted Turns',
+		name: 'maxPersistedTurns',
+		type: 'number',
+		default: 0,
+		typeOptions: {
+			minValue: 0,
+		},
+		displayOptions: {
+			show: {
+				conversationHistory: [true],
+				historyMode: ['window'],
+			},
+		},
+		description: 'How many of the latest turns are kept in "conversation_history" of the state. Use 0 to keep all turns.',
+	},
+	{
+		displayName: 'History Overflow',
+		name: 'historyOverflowPolicy',
+		type: 'options',
+		options: [
+			{
+				name: 'Drop',
+				value: 'drop',
+				description: 'Delete turns beyond Max Persisted Turns',
+			},
+			{
+				name: 'Archive',
+				value: 'archive',
+				description: 'Move turns beyond Max Persisted Turns to an archive session in the same storage, named after the Session ID with "stateful-ai-archive:" in front',
+			},
+		],
+		default: 'drop',
+		displayOptions: {
+			show: {
+				conversationHistory: [true],
+				historyMode: ['window'],
+			},
+			hide: {
+				maxPersistedTurns: [0],
+			},
+		},
+		description: 'What happens to the turns that no longer fit into the state',
+	},
+	{
+		displayName: 'Detailed History Entries',
+		name: 'detailedHistoryEntries',
+		type: 'boolean',
+		default: false,
+		displayOptions: showWithHistory,
+		description: 'Whether to add an ID, a timestamp, the tool calls and the changed state fields of the turn to each history entry',
+	},
+	{
+		displayName: 'Max Tool Result Length',
+		name: 'historyToolResultMaxLength',
+		type: 'number',
+		default: 500,
+		typeOptions: {
+			minValue: 0,
+		},
+		displayOptions: {
+			show: {
+				conversationHistory: [true],
+				detailedHistoryEntries: [true],
+			},
+		},
+		description: 'Tool results longer than this many characters are stored truncated. Use 0 to store them in full.',
+	},
+	{
+		displayName: 'Show Tool Calls in Prompt',
+		name: 'showToolCallsInPrompt',
+		type: 'boolean',
+		default: false,
+		displayOptions: {
+			show: {
+				conversationHistory: [true],
+				detailedHistoryEntries: [true],
+			},
+		},
+		description: 'Whether the conversation history in the prompts lists the tool calls of each turn',
+	},
+];
+
+// In summary mode the summary bounds the persisted history, so Max Persisted Turns does not apply
+export function getConversationHistorySettings(ctx: IExecuteFunctions, itemIndex: number): ConversationHistorySettings {
+	const mode = ctx.getNodeParameter('historyMode', itemIndex, 'window') as ConversationHistoryMode;
+	const summaryTriggerTurns = ctx.getNodeParameter('summaryTriggerTurns', itemIndex, 10) as number;
+	const summaryKeepTurns = ctx.getNodeParameter('summaryKeepTurns', itemIndex, 4) as number;
+	// Keeping as many turns as the trigger allows would never leave anything to summarize
+	if (mode === 'summary' && summaryKeepTurns >= summaryTriggerTurns) {
+		throw new NodeOperationError(ctx.getNode(), 'Recent Turns to Keep must be lower than Summarize After Turns', {
+			itemIndex,
+			description: `Recent Turns to Keep is ${summaryKeepTurns} and Summarize After Turns is ${summaryTriggerTurns}, so the history would never be summarized`,
+		});
+	}
+	return {
+		mode,
+		summaryTriggerTurns,
+		summaryKeepTurns,
+		maxPromptTurns: ctx.getNodeParameter('maxHistoryTurnsInPrompt', itemIndex, 0) as number,
+		maxPromptTokens: ctx.getNodeParameter('maxHistoryTokens', itemIndex, 0) as number,
+		tokenCounter: ctx.getNodeParameter('historyTokenCounter', itemIndex, 'estimate') as 'model' | 'estimate',
+		maxPersistedTurns: mode === 'window' ? ctx.getNodeParameter('maxPersistedTurns', itemIndex, 0) as number : 0,
+		overflowPolicy: ctx.getNodeParameter('historyOverflowPolicy', itemIndex, 'drop') as HistoryOverflowPolicy,
+		detailedEntries: ctx.getNodeParameter('detailedHistoryEntries', itemIndex, false) as boolean,
+		maxToolResultLength: ctx.getNodeParameter('historyToolResultMaxLength', itemIndex, 500) as number,
+		showToolCalls: ctx.getNodeParameter('showToolCallsInPrompt', itemIndex, false) as boolean,
+	};
+}
+
+export function getConversationHistory(state: IDataObject): ConversationHistoryEntry[] {
+	const history = state?.[CONVERSATION_HISTORY_KEY];
+	return Array.isArray(history) ? (history as unknown as ConversationHistoryEntry[]) : [];
+}
+
+// A turn starts with a user message and holds the replies to it. Entries before the first user
+// message form a turn of their own.
+export function splitHistoryTurns(history: ConversationHistoryEntry[]): ConversationHistoryEntry[][] {
+	const turns: ConversationHistoryEntry[][] = [];
+	for (const entry of history) {
+		if (entry?.role === 'user' || turns.length === 0) {
+			turns.push([entry]);
+		} else {
+			turns[turns.length - 1].push(entry);
+		}
+	}
+	return turns;
+}
+
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+function truncateToolResult(result: any, maxLength: number): any {
+	if (maxLength <= 0 || result === undefined) {
+		return result;
+	}
+	const text = typeof result === 'string' ? result : JSON.stringify(result);
+	if (text === undefined || text.length <= maxLength) {
+		return result;
+	}
+	return `${text.slice(0, maxLength)}... [truncated ${text.length - maxLength} characters]`;
+}
+
+// Plain entries keep the original { role, message } shape
+export function createHistoryEntry(
+	role: string,
+	message: string,
+	settings: ConversationHistorySettings,
+	details: { toolCalls?: HistoryToolCall[]; stateChangedProps?: string[] } = {},
+): ConversationHistoryEntry {
+	if (!settings.detailedEntries) {
+		return { role, message };
+	}
+	const entry: ConversationHistoryEntry = {
+		role,
+		message,
+		id: randomUUID(),
+		timestamp: new Date().toISOString(),
+	};
+	if (details.toolCalls && details.toolCalls.length > 0) {
+		entry.tool_calls = details.toolCalls.map((call) => ({
+			...call,
+			...(call.result !== undefined ? { result: truncateToolResult(call.result, settings.maxToolResultLength) } : {}),
+		}));
+	}
+	if (details.stateChangedProps) {
+		entry.state_changed_props = [...details.stateChangedProps];
+	}
+	return entry;
+}
+
+export function formatHistoryEntry(entry: ConversationHistoryEntry, showToolCalls = false): string {
+	const line = `${entry.role}: ${entry.message}`;
+	if (!showToolCalls || !Array.isArray(entry.tool_calls) || entry.tool_calls.length === 0) {
+		return line;
+	}
+	const calls = entry.tool_calls.map((call) => {
+		const outcome = call.error !== undefined ? `error: ${call.error}` : JSON.stringify(call.result);
+		return `  [tool ${call.tool_name}] input: ${JSON.stringify(call.input ?? {})} -> ${outcome}`;
+	});
+	return [line, ...calls].join('\n');
+}
+
+async function countTokens(text: string, llm: any, tokenCounter: 'model' | 'estimate'): Promise<number> {
+	if (tokenCounter === 'model' && typeof llm?.getNumTokens === 'function') {
+		try {
+			return await llm.getNumTokens(text);
+		} catch {
+			// Tokenizers that cannot be loaded fall back to the estimate
+		}
+	}
+	return estimateTokens(text);
+}
+
+// The part of the history that goes into the prompts: the latest turns that fit into both the
+// turn and the token limit. Turns are never cut in half.
+export async function selectPromptHistory(
+	history: ConversationHistoryEntry[],
+	settings: ConversationHistorySettings,
+	llm: any,
+): Promise<ConversationHistoryEntry[]> {
+	let turns = splitHistoryTurns(history);
+	if (settings.maxPromptTurns > 0) {
+		turns = turns.slice(-settings.maxPromptTurns);
+	}
+
+	if (settings.maxPromptTokens > 0) {
+		const selected: ConversationHistoryEntry[][] = [];
+		let total = 0;
+		for (const turn of [...turns].reverse()) {
+			const tokens = await countTokens(
+				turn.map((entry) => formatHistoryEntry(entry, settings.showToolCalls)).join('\n'),
+				llm,
+				settings.tokenCounter,
+			);
+			if (total + tokens > settings.maxPromptTokens) {
+				break;
+			}
+			total += tokens;
+			selected.unshift(turn);
+		}
+		turns = selected;
+	}
+
+	return turns.flat();
+}
+
+// Returns a commitState hook that keeps the latest Max Persisted Turns of the history, or undefined
+// when all turns are kept. The hook runs on the rebased state of every write attempt, so the entries
+// of concurrent executions are trimmed as well. onOverflow receives the removed entries of the
+// attempt that is about to be written.
+export function getHistoryTrimHook(
+	settings: ConversationHistorySettings,
+	onOverflow: (entries: ConversationHistoryEntry[]) => void,
+): StatePrepareHook | undefined {
+	if (settings.maxPersistedTurns <= 0) {
+		return undefined;
+	}
+	return (baseState, nextState) => {
+		const turns = splitHistoryTurns(getConversationHistory(nextState));
+		const overflow = turns.slice(0, Math.max(turns.length - settings.maxPersistedTurns, 0)).flat();
+		onOverflow(overflow);
+		if (overflow.length === 0) {
+			return nextState;
+		}
+		return {
+			...nextState,
+			[CONVERSATION_HISTORY_KEY]: turns.slice(-settings.maxPersistedTurns).flat() as unknown as IDataObject[],
+		};
+	};
+}
+
+// Session IDs may not start with this prefix, so an archive never shares its ID with a real session
+export const HISTORY_ARCHIVE_SESSION_PREFIX = 'stateful-ai-archive:';
+
+export function getHistoryArchiveSessionId(sessionId: string): string {
+	return `${HISTORY_ARCHIVE_SESSION_PREFIX}${sessionId}`;
+}
+
+// Appends entries to the "conversation_history" of the archive session, in the same storage
+// and with the same conflict handling as the state itself
+export async function archiveConversationHistory(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	sessionId: string,
+	entries: ConversationHistoryEntry[],
+): Promise<void> {
+	if (entries.length === 0) {
+		return;
+	}
+	const archiveStore = getStateStore(ctx, itemIndex, getHistoryArchiveSessionId(sessionId));
+	const archive = await archiveStore.get();
+	await commitState(ctx, itemIndex, archiveStore, archive, archive, [], (baseState, nextState) => ({
+		...nextState,
+		[CONVERSATION_HISTORY_KEY]: [...getConversationHistory(baseState), ...entries] as unknown as IDataObject[],
+	}));
+}
+
+export function getConversationSummary(state: IDataObject): string {
+	const summary = state?.[CONVERSATION_SUMMARY_KEY];
+	return typeof summary === 'string' ? summary : '';
+}
+
+// Splits off the turns to summarize once the history has more turns than the trigger. Only turns that
+// were not summarized before are still in the history, so each summary covers just the new ones.
+export function splitTurnsToSummarize(
+	history: ConversationHistoryEntry[],
+	settings: ConversationHistorySettings,
+): { evicted: ConversationHistoryEntry[]; kept: ConversationHistoryEntry[] } {
+	const turns = splitHistoryTurns(history);
+	if (settings.mode !== 'summary' || turns.length <= settings.summaryTriggerTurns) {
+		return { evicted: [], kept: history };
+	}
+	const evictedTurns = turns.length - Math.min(settings.summaryKeepTurns, turns.length);
+	return {
+		evicted: turns.slice(0, evictedTurns).flat(),
+		kept: turns.slice(evictedTurns).flat(),
+	};
+}
+
+// Folds the evicted messages into the existing summary
+export async function updateConversationSummary(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	llm: any,
+	summary: string,
+	entries: ConversationHistoryEntry[],
+	usage?: UsageTracker,
+): Promise<string> {
+	const summaryInput = {
+		summary: summary || 'No summary yet.',
+		messages: entries.map((entry) => formatHistoryEntry(entry, true)).join('\n'),
+	};
+	const summaryPrompt = getStagePrompt(ctx, itemIndex, agentPromptStages.conversationSummary, {
+		system: `You maintain a running summary of a conversation between a user and an assistant.
+Merge the new messages into the existing summary. Keep facts the user gave, decisions, preferences and open questions. Leave out greetings and small talk.
+Return ONLY the updated summary as plain text.`,
+		human: `Existing summary:
+{summary}
+
+New messages:
+{messages}`,
+	}, summaryInput);
+
+	const chain = RunnableSequence.from([
+		summaryPrompt,
+		llm,
+		new StringOutputParser(),
+	]) as any;
+	const result = await chain.invoke(summaryInput, { callbacks: usage?.callbacks('conversation_summary', llm) });
+	return String(result).trim();
+}
@@ -0,0 +1,131 @@
+import type { IDisplayOptions, IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { ChatPromptTemplate, HumanMessagePromptTemplate } from '@langchain/core/prompts';
+
+export type ImageDetail = 'auto' | 'low' | 'high';
+
+export interface ImageAttachment {
+	binaryProperty: string;
+	mimeType: string;
+	url: string;
+	detail: ImageDetail;
+}
+
+export function imageInputProperties(displayOptions?: IDisplayOptions): INodeProperties[] {
+	const showWithImages: IDisplayOptions = {
+		...displayOptions,
+		show: {
+			...displayOptions?.show,
+			attachImages: [true],
+		},
+	};
+
+	return [
+		{
+			displayName: 'Attach Images',
+			name: 'attachImages',
+			type: 'boolean',
+			default: false,
+			...(displayOptions ? { displayOptions } : {}),
+			description: 'Whether to send images from the binary data of the input item along with the user message, so state fields can be filled from them. The model must support image input.',
+		},
+		{
+			displayName: 'Image Binary Properties',
+			name: 'imageBinaryProperties',
+			type: 'string',
+			default: 'data',
+			displayOptions: showWithImages,
+			description: 'Comma-separated names of the binary properties that hold the images. Missing properties and files that are not images are skipped.',
+		},
+		{
+			displayName: 'Image Detail',
+			name: 'imageDetail',
+			type: 'options',
+			options: [
+				{
+					name: 'Auto',
+					value: 'auto',
+				},
+				{
+					name: 'High',
+					value: 'high',
+					description: 'Better for documents and small print, uses more tokens',
+				},
+				{
+					name: 'Low',
+					value: 'low',
+					description: 'Faster and cheaper',
+				},
+			],
+			default: 'auto',
+			displayOptions: showWithImages,
+			description: 'The resolution the model looks at the images with, for models that support it',
+		},
+	];
+}
+
+// Reads the images of the item as data URLs. Returns an empty list when Attach Images is off.
+export async function getImageAttachments(ctx: IExecuteFunctions, itemIndex: number): Promise<ImageAttachment[]> {
+	if (!ctx.getNodeParameter('attachImages', itemIndex, false)) {
+		return [];
+	}
+
+	const propertyNames = (ctx.getNodeParameter('imageBinaryProperties', itemIndex, 'data') as string)
+		.split(',')
+		.map((name) => name.trim())
+		.filter((name) => name.length > 0);
+	const detail = ctx.getNodeParameter('imageDetail', itemIndex, 'auto') as ImageDetail;
+	const binary = ctx.getInputData()[itemIndex]?.binary ?? {};
+
+	const images: ImageAttachment[] = [];
+	for (const binaryProperty of propertyNames) {
+		const binaryData = binary[binaryProperty];
+		if (!binaryData?.mimeType?.startsWith('image/')) {
+			continue;
+		}
+		try {
+			const buffer = await ctx.helpers.getBinaryDataBuffer(itemIndex, binaryProperty);
+			images.push({
+				binaryProperty,
+				mimeType: binaryData.mimeType,
+				url: `data:${binaryData.mimeType};base64,${buffer.toString('base64')}`,
+				detail,
+			});
+		} catch (error) {
+			throw new NodeOperationError(
+				ctx.getNode(),
+				`Could not read the image in binary property "${binaryProperty}": ${(error as Error).message}`,
+				{ itemIndex },
+			);
+		}
+	}
+	return images;
+}
+
+// Adds the images to the last user message of the prompt as image parts. Prompts without a user
+// message, like the single system message of the AI State Handler, get one that only holds the images.
+export function attachImages(prompt: ChatPromptTemplate, images: ImageAttachment[]): ChatPromptTemplate {
+	if (images.length === 0) {
+		return prompt;
+	}
+
+	const imageParts = images.map((image) => ({ image_url: { url: image.url, detail: image.detail } }));
+	const messages = [...prompt.promptMessages] as any[];
+	let index = -1;
+	for (let i = messages.length - 1; i >= 0; i--) {
+		if (messages[i] instanceof HumanMessagePromptTemplate && typeof messages[i].prompt?.template === 'string') {
+			index = i;
+			break;
+		}
+	}
+
+	if (index === -1) {
+		messages.push(HumanMessagePromptTemplate.fromTemplate([{ text: 'Attached images:' }, ...imageParts]));
+	} else {
+		messages[index] = HumanMessagePromptTemplate.fromTemplate([
+			{ text: messages[index].prompt.template },
+			...imageParts,
+		]);
+	}
+	return ChatPromptTemplate.fromMessages(messages);
+}
@@ -0,0 +1,113 @@
+// Minimal RFC 6902 JSON Patch support: enough to describe and apply state changes
+export type JsonPatchOperation =
+	| { op: 'add'; path: string; value: any }
+	| { op: 'replace'; path: string; value: any }
+	| { op: 'remove'; path: string };
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export function escapePointerSegment(segment: string): string {
+	return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+export function parsePointer(pointer: string): string[] {
+	if (pointer === '') {
+		return [];
+	}
+	if (!pointer.startsWith('/')) {
+		throw new Error(`Invalid JSON pointer "${pointer}"`);
+	}
+	return pointer
+		.slice(1)
+		.split('/')
+		.map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+export function createJsonPatch(
+	prev: Record<string, any>,
+	next: Record<string, any>,
+	basePath: string = '',
+): JsonPatchOperation[] {
+	const operations: JsonPatchOperation[] = [];
+
+	for (const key of Object.keys(prev)) {
+		if (!(key in next) || next[key] === undefined) {
+			operations.push({ op: 'remove', path: `${basePath}/${escapePointerSegment(key)}` });
+		}
+	}
+
+	for (const [key, value] of Object.entries(next)) {
+		if (value === undefined) {
+			continue;
+		}
+		const path = `${basePath}/${escapePointerSegment(key)}`;
+		const prevValue = prev[key];
+
+		if (!(key in prev) || prevValue === undefined) {
+			operations.push({ op: 'add', path, value });
+		} else if (JSON.stringify(prevValue) === JSON.stringify(value)) {
+			continue;
+		} else if (isPlainObject(prevValue) && isPlainObject(value)) {
+			operations.push(...createJsonPatch(prevValue, value, path));
+		} else if (
+			Array.isArray(prevValue) &&
+			Array.isArray(value) &&
+			value.length > prevValue.length &&
+			JSON.stringify(value.slice(0, prevValue.length)) === JSON.stringify(prevValue)
+		) {
+			// Append-only arrays (like conversation_history) only send the new entries
+			for (const entry of value.slice(prevValue.length)) {
+				operations.push({ op: 'add', path: `${path}/-`, value: entry });
+			}
+		} else {
+			operations.push({ op: 'replace', path, value });
+		}
+	}
+
+	return operations;
+}
+
+export function applyJsonPatch<T extends Record<string, any>>(document: T, operations: JsonPatchOperation[]): T {
+	const result = JSON.parse(JSON.stringify(document ?? {}));
+
+	for (const operation of operations) {
+		const segments = parsePointer(operation.path);
+		if (segments.length === 0) {
+			throw new Error('Patching the document root is not supported');
+		}
+
+		let parent: any = result;
+		for (const segment of segments.slice(0, -1)) {
+			if (parent === null || typeof parent !== 'object' || !(segment in parent)) {
+				throw new Error(`Path "${operation.path}" does not exist`);
+			}
+			parent = parent[segment];
+		}
+
+		const key = segments[segments.length - 1];
+		if (Array.isArray(parent)) {
+			const index = key === '-' ? parent.length : Number(key);
+			if (!Number.isInteger(index) || index < 0 || index > parent.length) {
+				throw new Error(`Invalid array index in path "${operation.path}"`);
+			}
+			if (operation.op === 'add') {
+				parent.splice(index, 0, operation.value);
+			} else if (operation.op === 'replace') {
+				parent[index] = operation.value;
+			} else {
+				parent.splice(index, 1);
+			}
+		} else if (parent !== null && typeof parent === 'object') {
+			if (operation.op === 'remove') {
+				delete parent[key];
+			} else {
+				parent[key] = operation.value;
+			}
+		} else {
+			throw new Error(`Path "${operation.path}" does not exist`);
+		}
+	}
+
+	return result;
+}
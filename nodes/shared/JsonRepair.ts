@@ -0,0 +1,101 @@
+const literalReplacements: Record<string, string> = {
+	True: 'true',
+	False: 'false',
+	None: 'null',
+};
+
+function escapeControlCharacter(char: string): string {
+	if (char === '\n') return '\\n';
+	if (char === '\r') return '\\r';
+	if (char === '\t') return '\\t';
+	return '\\u' + ('0000' + char.charCodeAt(0).toString(16)).slice(-4);
+}
+
+// Lenient repair of almost-JSON LLM replies: code fences and prose around the JSON are dropped,
+// single-quoted strings, trailing commas, Python literals and raw control characters are fixed and
+// truncated output is closed. The result is not guaranteed to be valid JSON.
+export function repairJson(text: string): string {
+	let source = text.trim();
+	const fenced = source.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/i);
+	if (fenced) {
+		source = fenced[1].trim();
+	}
+	const start = source.search(/[{[]/);
+	if (start === -1) {
+		return source;
+	}
+	source = source.slice(start);
+
+	let output = '';
+	const closers: string[] = [];
+	let quote: string | null = null;
+	let escaped = false;
+
+	for (let i = 0; i < source.length; i++) {
+		const char = source[i];
+
+		if (quote) {
+			if (escaped) {
+				if (char === "'") {
+					// \' is not a JSON escape, the quote needs none in a double-quoted string
+					output = output.slice(0, -1);
+				}
+				output += char;
+				escaped = false;
+			} else if (char === '\\') {
+				output += char;
+				escaped = true;
+			} else if (char === quote) {
+				output += '"';
+				quote = null;
+			} else if (char === '"') {
+				// Double quote inside a single-quoted string
+				output += '\\"';
+			} else if (char.charCodeAt(0) < 0x20) {
+				output += escapeControlCharacter(char);
+			} else {
+				output += char;
+			}
+			continue;
+		}
+
+		if (char === '"' || char === "'") {
+			quote = char;
+			output += '"';
+		} else if (char === '{' || char === '[') {
+			closers.push(char === '{' ? '}' : ']');
+			output += char;
+		} else if (char === '}' || char === ']') {
+			output = output.replace(/,\s*$/, '');
+			output += closers.pop() ?? '';
+			if (closers.length === 0) {
+				// Anything after the JSON value is prose
+				break;
+			}
+		} else if (/[A-Za-z]/.test(char)) {
+			const word = source.slice(i).match(/^[A-Za-z_]+/)![0];
+			output += literalReplacements[word] ?? word;
+			i += word.length - 1;
+		} else {
+			output += char;
+		}
+	}
+
+	// Close truncated output
+	if (quote) {
+		if (escaped) {
+			output = output.slice(0, -1);
+		}
+		output += '"';
+	}
+	output = output.replace(/,\s*$/, '').replace(/:\s*$/, ': null');
+	if (closers[closers.length - 1] === '}' && /[{,]\s*"(?:[^"\\]|\\.)*"\s*$/.test(output)) {
+		// A key without a value
+		output += ': null';
+	}
+	while (closers.length > 0) {
+		output += closers.pop();
+	}
+
+	return output;
+}
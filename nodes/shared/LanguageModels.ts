@@ -0,0 +1,21 @@
+import type { IExecuteFunctions, INodeInputConfiguration } from 'n8n-workflow';
+import { NodeConnectionTypes } from 'n8n-workflow';
+
+export const stateExtractionLlmInput: INodeInputConfiguration = {
+	type: NodeConnectionTypes.AiLanguageModel,
+	displayName: 'State Extraction LLM',
+	required: false,
+	maxConnections: 1,
+};
+
+// Both language model inputs share one connection type. n8n returns the connected models in
+// reverse input order, so the main LLM comes last. Without a State Extraction LLM the main LLM
+// is used for every step.
+export async function getLanguageModels(ctx: IExecuteFunctions): Promise<{ llm: any; extractionLlm: any }> {
+	const connected = (await ctx.getInputConnectionData(NodeConnectionTypes.AiLanguageModel, 0)) as any;
+	if (Array.isArray(connected)) {
+		const models = [...connected].reverse();
+		return { llm: models[0], extractionLlm: models[1] ?? models[0] };
+	}
+	return { llm: connected, extractionLlm: connected };
+}
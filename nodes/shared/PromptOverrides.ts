@@ -0,0 +1,193 @@
+import type { IDataObject, IDisplayOptions, IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { ChatPromptTemplate } from '@langchain/core/prompts';
+
+export interface PromptStage {
+	name: string;
+	displayName: string;
+	// The messages that can be overridden. The response step keeps the System Prompt parameter as
+	// its system message, the AI State Handler sends a single system message.
+	messages: Array<'system' | 'human'>;
+	// Documentation of the variables in the UI
+	variables: string[];
+	required: string[];
+}
+
+// Shared by both nodes
+const toolInputCorrectionStage: PromptStage = {
+	name: 'toolInputCorrection',
+	displayName: 'Tool Input Correction',
+	messages: ['system'],
+	variables: ['{invalidCalls}', '{toolSchemas}', '{message}'],
+	required: ['invalidCalls'],
+};
+
+export const agentPromptStages = {
+	stateAnalysis: {
+		name: 'stateAnalysis',
+		displayName: 'State Analysis',
+		messages: ['system', 'human'],
+		variables: [
+			'{stateFields}',
+			'{currentState}',
+			'{user_message}',
+			'{availableTools} (with tools)',
+			'{conversation_history} (with conversation history)',
+			'{systemPrompt} and {instructionText} (single prompt mode)',
+			'top-level state fields like {name}',
+		],
+		required: ['currentState', 'user_message'],
+	},
+	postToolState: {
+		name: 'postToolState',
+		displayName: 'Post-Tool State',
+		messages: ['system', 'human'],
+		variables: [
+			'{stateFields}',
+			'{stateModelStructure}',
+			'{currentState}',
+			'{toolResults}',
+			'{user_message}',
+			'{availableTools} (while tool rounds are left)',
+			'{systemPrompt}, {toolsInvoked}, {conversation_history} and top-level state fields (single prompt mode)',
+		],
+		required: ['currentState', 'toolResults'],
+	},
+	response: {
+		name: 'response',
+		displayName: 'Response',
+		messages: ['human'],
+		variables: [
+			'{systemPrompt}',
+			'{user_message}',
+			'{conversation_history} (with conversation history)',
+			'{stateFields}, {currentState} and top-level state fields (single prompt mode)',
+		],
+		required: ['user_message'],
+	},
+	conversationSummary: {
+		name: 'conversationSummary',
+		displayName: 'Conversation Summary',
+		messages: ['system', 'human'],
+		variables: ['{summary}', '{messages}'],
+		required: ['summary', 'messages'],
+	},
+	toolInputCorrection: toolInputCorrectionStage,
+} satisfies Record<string, PromptStage>;
+
+export const stateHandlerPromptStages = {
+	systemState: {
+		name: 'systemState',
+		displayName: 'System Message State',
+		messages: ['system'],
+		variables: ['{stateFields}', '{currentState}', '{systemMessage}'],
+		required: ['currentState', 'systemMessage'],
+	},
+	stateAnalysis: {
+		name: 'stateAnalysis',
+		displayName: 'State Analysis',
+		messages: ['system'],
+		variables: ['{stateFields}', '{currentState}', '{availableTools}', '{userMessage}'],
+		required: ['currentState', 'userMessage'],
+	},
+	postToolState: {
+		name: 'postToolState',
+		displayName: 'Post-Tool State',
+		messages: ['system'],
+		variables: ['{stateFields}', '{currentState}', '{toolResults}', '{userMessage}', '{availableTools} (while tool rounds are left)'],
+		required: ['currentState', 'toolResults'],
+	},
+	toolInputCorrection: toolInputCorrectionStage,
+} satisfies Record<string, PromptStage>;
+
+function describeOverride(stage: PromptStage, message: string): string {
+	const required = stage.required.map((variable) => `{${variable}}`).join(', ');
+	return `Replaces the ${message} of the ${stage.displayName.toLowerCase()} step. Variables: ${stage.variables.join(', ')}. Required: ${required}. Write literal braces as {{ and }}.`;
+}
+
+export function advancedPromptsProperty(stages: PromptStage[], displayOptions?: IDisplayOptions): INodeProperties {
+	const options: INodeProperties[] = [];
+	for (const stage of stages) {
+		for (const message of stage.messages) {
+			const label = message === 'system' ? 'System Message' : 'User Message';
+			options.push({
+				displayName: `${stage.displayName} ${label}`,
+				name: `${stage.name}${message === 'system' ? 'System' : 'Human'}`,
+				type: 'string',
+				typeOptions: {
+					rows: 8,
+				},
+				default: '',
+				description: describeOverride(stage, label.toLowerCase()),
+			});
+		}
+	}
+
+	return {
+		displayName: 'Advanced Prompts',
+		name: 'advancedPrompts',
+		type: 'collection',
+		placeholder: 'Override Prompt',
+		default: {},
+		...(displayOptions ? { displayOptions } : {}),
+		options: options.sort((a, b) => a.displayName.localeCompare(b.displayName)),
+	};
+}
+
+// Template variables, ignoring the escaped braces {{ and }}
+export function getTemplateVariables(template: string): string[] {
+	const variables = new Set<string>();
+	for (const match of template.replace(/\{\{|\}\}/g, '').matchAll(/\{([^{}]+)\}/g)) {
+		variables.add(match[1].trim());
+	}
+	return [...variables];
+}
+
+// Builds the prompt of a stage from its default templates or the Advanced Prompts overrides.
+// Overrides are validated against the variables the step actually passes in.
+export function getStagePrompt(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	stage: PromptStage,
+	defaults: { system: string; human?: string },
+	input: Record<string, any>,
+): ChatPromptTemplate {
+	const overrides = ctx.getNodeParameter('advancedPrompts', itemIndex, {}) as IDataObject;
+	const getOverride = (message: 'system' | 'human', key: string) =>
+		stage.messages.includes(message) ? ((overrides[`${stage.name}${key}`] as string) || '').trim() : '';
+	const systemOverride = getOverride('system', 'System');
+	const humanOverride = getOverride('human', 'Human');
+
+	const system = systemOverride || defaults.system;
+	const human = humanOverride || defaults.human;
+
+	if (systemOverride || humanOverride) {
+		const used = getTemplateVariables(`${system}\n${human ?? ''}`);
+		const missing = stage.required.filter((variable) => !used.includes(variable));
+		if (missing.length > 0) {
+			throw new NodeOperationError(
+				ctx.getNode(),
+				`The ${stage.displayName} prompt must use ${missing.map((variable) => `{${variable}}`).join(', ')}`,
+				{ itemIndex, description: 'Check the overrides in "Advanced Prompts"' },
+			);
+		}
+
+		const unknown = used.filter((variable) => !(variable in input));
+		if (unknown.length > 0) {
+			throw new NodeOperationError(
+				ctx.getNode(),
+				`The ${stage.displayName} prompt uses ${unknown.map((variable) => `{${variable}}`).join(', ')}, which is not available in this step`,
+				{
+					itemIndex,
+					description: `Available variables: ${Object.keys(input).map((variable) => `{${variable}}`).join(', ')}. Write literal braces as {{ and }}.`,
+				},
+			);
+		}
+	}
+
+	const messages: Array<[string, string]> = [['system', system]];
+	if (human !== undefined) {
+		messages.push(['human', human]);
+	}
+	return ChatPromptTemplate.fromMessages(messages);
+}
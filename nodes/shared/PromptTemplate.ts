@@ -0,0 +1,165 @@
+import { getNestedValue, isPlainObject } from './StatePaths';
+
+// Template syntax of the System Prompt:
+//   {name}  {address.city}        value of a state field, objects are inserted as JSON
+//   {name|"there"}                default for empty fields
+//   {#if email}...{else}...{/if}  conditional on a non-empty field
+//   {#each items}...{/each}       loop over an array field. Inside, {this} is the item,
+//                                 {this.title} or {title} a property of it and {@index} its index
+//   {{ and }}                     literal braces
+// Braces that do not form a tag, like the ones of inline JSON, are kept as they are.
+
+type TemplateNode =
+	| { type: 'text'; value: string }
+	| { type: 'variable'; path: string; fallback?: string }
+	| { type: 'if'; path: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+	| { type: 'each'; path: string; body: TemplateNode[] };
+
+interface TemplateScope {
+	data: any;
+	index?: number;
+	parent?: TemplateScope;
+}
+
+const tagPattern =
+	/\{\{|\}\}|\{#(if|each)\s+([A-Za-z_@][\w.@]*)\s*\}|\{else\}|\{\/(if|each)\}|\{([A-Za-z_@][\w.@]*)(?:\|("(?:[^"\\]|\\.)*"|'[^']*'|[^{}]*))?\}/g;
+
+function parseFallback(raw: string): string {
+	const trimmed = raw.trim();
+	if (trimmed.startsWith('"')) {
+		try {
+			return JSON.parse(trimmed);
+		} catch {
+			return trimmed.slice(1, -1);
+		}
+	}
+	if (trimmed.startsWith("'")) {
+		return trimmed.slice(1, -1);
+	}
+	return trimmed;
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+	const root: TemplateNode[] = [];
+	// Open blocks, innermost last, with the list to continue in once they are closed.
+	// "target" is the list the next nodes are added to.
+	const stack: Array<{ node: TemplateNode & { type: 'if' | 'each' }; parentTarget: TemplateNode[] }> = [];
+	let target = root;
+	let lastIndex = 0;
+
+	const addText = (value: string) => {
+		if (value) {
+			target.push({ type: 'text', value });
+		}
+	};
+
+	for (const match of template.matchAll(tagPattern)) {
+		addText(template.slice(lastIndex, match.index));
+		lastIndex = (match.index as number) + match[0].length;
+		const [tag, blockType, blockPath, closeType, variablePath, fallback] = match;
+
+		if (tag === '{{' || tag === '}}') {
+			addText(tag[0]);
+		} else if (blockType === 'if') {
+			const node: TemplateNode = { type: 'if', path: blockPath, then: [], otherwise: [] };
+			target.push(node);
+			stack.push({ node, parentTarget: target });
+			target = node.then;
+		} else if (blockType === 'each') {
+			const node: TemplateNode = { type: 'each', path: blockPath, body: [] };
+			target.push(node);
+			stack.push({ node, parentTarget: target });
+			target = node.body;
+		} else if (tag === '{else}') {
+			const open = stack[stack.length - 1];
+			if (open?.node.type === 'if') {
+				target = open.node.otherwise;
+			} else {
+				addText(tag);
+			}
+		} else if (closeType) {
+			const open = stack[stack.length - 1];
+			if (open?.node.type === closeType) {
+				stack.pop();
+				target = open.parentTarget;
+			} else {
+				addText(tag);
+			}
+		} else if (variablePath) {
+			target.push({
+				type: 'variable',
+				path: variablePath,
+				...(fallback !== undefined ? { fallback: parseFallback(fallback) } : {}),
+			});
+		}
+	}
+
+	addText(template.slice(lastIndex));
+	return root;
+}
+
+function lookup(scope: TemplateScope, path: string): any {
+	if (path === '@index') {
+		return scope.index;
+	}
+	if (path === 'this') {
+		return scope.data;
+	}
+	if (path.startsWith('this.')) {
+		return getNestedValue(scope.data, path.slice(5));
+	}
+
+	// Fields of the current loop item hide the ones of the outer scopes
+	for (let current: TemplateScope | undefined = scope; current; current = current.parent) {
+		const value = getNestedValue(current.data, path);
+		if (value !== undefined) {
+			return value;
+		}
+	}
+	return undefined;
+}
+
+function isEmpty(value: any): boolean {
+	return value === undefined || value === null || value === '' || value === false
+		|| (Array.isArray(value) && value.length === 0)
+		|| (isPlainObject(value) && Object.keys(value).length === 0);
+}
+
+function renderNodes(nodes: TemplateNode[], scope: TemplateScope): string {
+	let output = '';
+	for (const node of nodes) {
+		switch (node.type) {
+			case 'text':
+				output += node.value;
+				break;
+			case 'variable': {
+				const value = lookup(scope, node.path);
+				if (isEmpty(value) && value !== false) {
+					output += node.fallback ?? '';
+				} else {
+					output += typeof value === 'object' ? JSON.stringify(value) : String(value);
+				}
+				break;
+			}
+			case 'if':
+				output += renderNodes(isEmpty(lookup(scope, node.path)) ? node.otherwise : node.then, scope);
+				break;
+			case 'each': {
+				const items = lookup(scope, node.path);
+				if (Array.isArray(items)) {
+					items.forEach((item, index) => {
+						output += renderNodes(node.body, { data: item, index, parent: scope });
+					});
+				}
+				break;
+			}
+		}
+	}
+	return output;
+}
+
+// Renders a template with the state. The result is plain text, so it has to be passed to
+// ChatPromptTemplate as a variable value, never as a template.
+export function renderPromptTemplate(template: string, data: Record<string, any>): string {
+	return renderNodes(parseTemplate(template || ''), { data: data ?? {} });
+}
@@ -0,0 +1,127 @@
+import type { INodeProperties } from 'n8n-workflow';
+import { extractStateModelStructure } from './StateModel';
+import { getNestedValue, isPlainObject } from './StatePaths';
+import type { JsonSchema } from './StateSchema';
+
+export const COMPLETED_AT_KEY = 'completed_at';
+
+export interface RequiredStateField {
+	path: string;
+	description: string;
+}
+
+export interface CompletionStatus {
+	missingFields: string[];
+	isComplete: boolean;
+	completedAt: string | null;
+}
+
+export const requiredFieldsProperty: INodeProperties = {
+	displayName: 'Required Fields',
+	name: 'requiredFields',
+	type: 'string',
+	default: '',
+	placeholder: 'name, email, address.city',
+	description: 'Comma-separated state fields (dotted paths for nested fields) that must be collected, in the order they should be asked for. Defaults to the "required" fields of a JSON Schema state model.',
+};
+
+function getSchemaRequiredPaths(schema: JsonSchema, prefix: string = ''): string[] {
+	const paths: string[] = [];
+	const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+
+	for (const [key, propertySchema] of Object.entries<JsonSchema>(schema.properties || {})) {
+		const path = prefix ? `${prefix}.${key}` : key;
+		if (isPlainObject(propertySchema) && isPlainObject(propertySchema.properties)) {
+			paths.push(...getSchemaRequiredPaths(propertySchema, path));
+		} else if (required.includes(key)) {
+			paths.push(path);
+		}
+	}
+
+	return paths;
+}
+
+export function getRequiredFields(
+	stateModel: Record<string, any>,
+	stateSchema: JsonSchema | null,
+	requiredFieldsParam: string,
+): RequiredStateField[] {
+	const descriptions = new Map(
+		extractStateModelStructure(stateModel).map((field) => [field.path, field.description]),
+	);
+
+	const configuredPaths = (requiredFieldsParam || '')
+		.split(',')
+		.map((path) => path.trim())
+		.filter((path) => path.length > 0);
+	const paths = configuredPaths.length > 0
+		? configuredPaths
+		: stateSchema
+			? getSchemaRequiredPaths(stateSchema)
+			: [];
+
+	return paths.map((path) => ({ path, description: descriptions.get(path) ?? '' }));
+}
+
+export function isFieldMissing(value: any): boolean {
+	return value === undefined || value === null || value === ''
+		|| (Array.isArray(value) && value.length === 0);
+}
+
+export function getMissingFields(requiredFields: RequiredStateField[], state: Record<string, any>): string[] {
+	return requiredFields
+		.filter((field) => isFieldMissing(getNestedValue(state, field.path)))
+		.map((field) => field.path);
+}
+
+// Computes the completion status and stores "completed_at" in the state the first time every
+// required field is filled. It is cleared again when a required field gets emptied.
+export function updateCompletionStatus(
+	requiredFields: RequiredStateField[],
+	state: Record<string, any>,
+	prevState: Record<string, any>,
+	stateChangedProps: string[],
+): CompletionStatus {
+	const missingFields = getMissingFields(requiredFields, state);
+	const isComplete = missingFields.length === 0;
+	const prevCompletedAt = typeof prevState[COMPLETED_AT_KEY] === 'string' ? prevState[COMPLETED_AT_KEY] : null;
+	const completedAt = isComplete ? (prevCompletedAt ?? new Date().toISOString()) : null;
+
+	state[COMPLETED_AT_KEY] = completedAt;
+	if (completedAt !== prevCompletedAt && !stateChangedProps.includes(COMPLETED_AT_KEY)) {
+		stateChangedProps.push(COMPLETED_AT_KEY);
+	}
+
+	return { missingFields, isComplete, completedAt };
+}
+
+const stripBraces = (text: string) => text.replace(/[{}]/g, '');
+
+// Instruction appended to the system prompt of the reply. Without a known state (the reply is
+// generated in the same call as the extraction) the model is told to pick the next field itself.
+export function buildSlotFillingInstruction(
+	requiredFields: RequiredStateField[],
+	state: Record<string, any> | null,
+): string {
+	if (requiredFields.length === 0) {
+		return '';
+	}
+
+	if (state === null) {
+		const fieldList = requiredFields
+			.map((field, index) => `${index + 1}. ${field.path}${field.description ? `: ${stripBraces(field.description)}` : ''}`)
+			.join('\n');
+		return `Slot filling - collect these required fields in this order:
+${fieldList}
+After updating the state, ask the user for the first required field that is still empty, and only for that one. When every required field is filled, continue the conversation normally.`;
+	}
+
+	const missing = requiredFields.filter((field) => isFieldMissing(getNestedValue(state, field.path)));
+	if (missing.length === 0) {
+		return '';
+	}
+
+	const next = missing[0];
+	return `Slot filling - still missing required fields: ${missing.map((field) => field.path).join(', ')}.
+In your reply, ask the user for "${next.path}"${next.description ? ` (${stripBraces(next.description)})` : ''}. Ask only for this field.`;
+}
@@ -0,0 +1,164 @@
+import type { IDataObject, IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+import { randomUUID } from 'crypto';
+import type { StatePathChange } from './StatePaths';
+import { deleteNestedValue, diffStatePaths, setNestedValue } from './StatePaths';
+import { STATE_VERSION_KEY } from './StateStorage';
+import type { StatePrepareHook } from './StateStorage';
+
+export const STATE_HISTORY_KEY = 'state_history';
+// Number of conversation turns processed while the history is tracked
+export const STATE_TURN_KEY = 'state_turn';
+
+// Bookkeeping keys that are never recorded as state changes
+export const untrackedStateKeys = [
+	'conversation_history',
+	'conversation_summary',
+	'pending_tool_approvals',
+	'tool_cache',
+	STATE_HISTORY_KEY,
+	STATE_TURN_KEY,
+	STATE_VERSION_KEY,
+];
+
+export interface StateHistoryEntry {
+	id: string;
+	// Number of the entry in the session, counted from 1
+	sequence: number;
+	// Conversation turn of the change. Turns that change nothing add no entry, a resumed turn
+	// and a rollback keep the number of the turn they belong to.
+	turn: number;
+	timestamp: string;
+	source_message: string;
+	changes: StatePathChange[];
+}
+
+export const stateHistoryProperties: INodeProperties[] = [
+	{
+		displayName: 'Track State History',
+		name: 'trackStateHistory',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to record every committed state change in "state_history" so earlier values can be inspected and rolled back. Every turn is saved while this is on, to count the turns.',
+	},
+	{
+		displayName: 'Max History Entries',
+		name: 'maxStateHistoryEntries',
+		type: 'number',
+		default: 50,
+		typeOptions: {
+			minValue: 0,
+		},
+		displayOptions: {
+			show: {
+				trackStateHistory: [true],
+			},
+		},
+		description: 'Oldest entries are dropped once there are more than this many. Use 0 to keep all entries.',
+	},
+];
+
+export function getStateHistory(state: IDataObject): StateHistoryEntry[] {
+	const history = state?.[STATE_HISTORY_KEY];
+	return Array.isArray(history) ? (history as unknown as StateHistoryEntry[]) : [];
+}
+
+export function getStateTurn(state: IDataObject): number {
+	const turn = Number(state?.[STATE_TURN_KEY]);
+	return Number.isInteger(turn) && turn > 0 ? turn : 0;
+}
+
+export function appendStateHistoryEntry(
+	baseState: IDataObject,
+	nextState: IDataObject,
+	sourceMessage: string,
+	maxEntries: number,
+	newTurn: boolean,
+): IDataObject {
+	const history = getStateHistory(baseState);
+	const turn = getStateTurn(baseState) + (newTurn ? 1 : 0);
+	const changes = diffStatePaths(baseState, nextState, untrackedStateKeys);
+	if (changes.length === 0) {
+		return { ...nextState, [STATE_HISTORY_KEY]: history as unknown as IDataObject[], [STATE_TURN_KEY]: turn };
+	}
+
+	const lastSequence = history.length > 0 ? history[history.length - 1].sequence : 0;
+	const entry: StateHistoryEntry = {
+		id: randomUUID(),
+		sequence: lastSequence + 1,
+		turn,
+		timestamp: new Date().toISOString(),
+		source_message: sourceMessage,
+		changes,
+	};
+
+	const updatedHistory = [...history, entry];
+	return {
+		...nextState,
+		[STATE_HISTORY_KEY]: (maxEntries > 0 ? updatedHistory.slice(-maxEntries) : updatedHistory) as unknown as IDataObject[],
+		[STATE_TURN_KEY]: turn,
+	};
+}
+
+// Returns a commitState hook that records the change, or undefined when history tracking is off.
+// The entry is computed against the state each write attempt is based on, so retries stay consistent.
+// newTurn counts the commit as a new conversation turn. The node saves every turn while the hook
+// is set, so turns without changes are counted too.
+export function getStateHistoryHook(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	sourceMessage: string,
+	newTurn: boolean = true,
+): StatePrepareHook | undefined {
+	if (!ctx.getNodeParameter('trackStateHistory', itemIndex, false)) {
+		return undefined;
+	}
+	const maxEntries = ctx.getNodeParameter('maxStateHistoryEntries', itemIndex, 50) as number;
+	return (baseState, nextState) => appendStateHistoryEntry(baseState, nextState, sourceMessage, maxEntries, newTurn);
+}
+
+// Rebuilds the state as it was right after the target entry, or at the end of the target turn
+// (turn 0 means before any turn), by reverting the newer entries, newest first. Returns null if
+// the target is not in the history.
+export function restoreStateFromHistory(
+	state: IDataObject,
+	target: { turn?: number; historyId?: string },
+): { state: IDataObject; revertedEntries: StateHistoryEntry[] } | null {
+	const history = getStateHistory(state);
+
+	// Index of the oldest entry to revert
+	let revertFrom: number;
+	if (target.historyId !== undefined) {
+		revertFrom = history.findIndex((entry) => entry.id === target.historyId) + 1;
+		if (revertFrom === 0) {
+			return null;
+		}
+	} else {
+		const turn = target.turn ?? 0;
+		if (turn > getStateTurn(state)) {
+			// The turn has not happened yet
+			return null;
+		}
+		revertFrom = history.findIndex((entry) => entry.turn > turn);
+		if (revertFrom === -1) {
+			revertFrom = history.length;
+		} else if (revertFrom === 0 && history[0].sequence !== 1) {
+			// Dropped entries may belong to later turns than the target
+			return null;
+		}
+	}
+
+	const restored: IDataObject = JSON.parse(JSON.stringify(state));
+	const revertedEntries = history.slice(revertFrom);
+
+	for (const entry of [...revertedEntries].reverse()) {
+		for (const change of [...entry.changes].reverse()) {
+			if (change.oldValue === undefined) {
+				deleteNestedValue(restored, change.path);
+			} else {
+				setNestedValue(restored, change.path, change.oldValue);
+			}
+		}
+	}
+
+	return { state: restored, revertedEntries };
+}
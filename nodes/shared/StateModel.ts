@@ -0,0 +1,91 @@
+import { getNestedValue, isPlainObject, setNestedValue } from './StatePaths';
+
+export interface StateModelField {
+	path: string;
+	description: string;
+}
+
+export function extractStateModelStructure(stateModel: any, prefix: string = ''): StateModelField[] {
+	const fields: StateModelField[] = [];
+
+	for (const [key, value] of Object.entries(stateModel)) {
+		const fullPath = prefix ? `${prefix}.${key}` : key;
+
+		if (isPlainObject(value)) {
+			// Recursively extract nested structure
+			fields.push(...extractStateModelStructure(value, fullPath));
+		} else {
+			// Leaf field
+			fields.push({
+				path: fullPath,
+				description: typeof value === 'string' ? value : JSON.stringify(value),
+			});
+		}
+	}
+
+	return fields;
+}
+
+export function formatStateModelFields(stateModel: any): string {
+	return extractStateModelStructure(stateModel)
+		.map((field) => `- ${field.path}: ${field.description}`)
+		.join('\n');
+}
+
+function initializeStructure(model: any, target: any): void {
+	for (const [key, value] of Object.entries(model)) {
+		if (isPlainObject(value)) {
+			target[key] = {};
+			initializeStructure(value, target[key]);
+		} else {
+			target[key] = null;
+		}
+	}
+}
+
+// Builds a state with exactly the state model structure. Fields missing from updatedState are null.
+export function normalizeStateToModel(updatedState: any, stateModel: any): Record<string, any> {
+	const normalizedState: Record<string, any> = {};
+	initializeStructure(stateModel, normalizedState);
+
+	for (const field of extractStateModelStructure(stateModel)) {
+		const value = getNestedValue(updatedState, field.path);
+		if (value !== undefined) {
+			setNestedValue(normalizedState, field.path, value);
+		}
+	}
+
+	return normalizedState;
+}
+
+// Like normalizeStateToModel, but fields missing from updatedState keep their current value
+export function mergeStateWithModel(updatedState: any, stateModel: any, currentState: Record<string, any>): Record<string, any> {
+	// Start with a clean state that matches the state model structure exactly
+	const mergedState: Record<string, any> = {};
+	initializeStructure(stateModel, mergedState);
+
+	// Only update fields that exist in the state model
+	for (const field of extractStateModelStructure(stateModel)) {
+		const value = getNestedValue(updatedState, field.path);
+		if (value !== undefined && value !== null) {
+			setNestedValue(mergedState, field.path, value);
+		} else {
+			// Preserve current state value if updated state doesn't have it
+			const currentValue = getNestedValue(currentState, field.path);
+			if (currentValue !== undefined) {
+				setNestedValue(mergedState, field.path, currentValue);
+			}
+		}
+	}
+
+	return mergedState;
+}
+
+// Full paths (like "address.city") of the state model fields whose value differs
+export function getChangedModelPaths(stateModel: any, prevState: Record<string, any>, state: Record<string, any>): string[] {
+	return extractStateModelStructure(stateModel)
+		.map((field) => field.path)
+		.filter((path) =>
+			JSON.stringify(getNestedValue(prevState, path) ?? null) !== JSON.stringify(getNestedValue(state, path) ?? null)
+		);
+}
@@ -0,0 +1,78 @@
+// Helpers for addressing nested state fields with dotted paths like "address.city"
+export function isPlainObject(value: any): value is Record<string, any> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function getNestedValue(obj: any, path: string): any {
+	const parts = path.split('.');
+	let current = obj;
+	for (const part of parts) {
+		if (current === null || current === undefined || typeof current !== 'object') {
+			return undefined;
+		}
+		current = current[part];
+	}
+	return current;
+}
+
+export function setNestedValue(obj: any, path: string, value: any): void {
+	const parts = path.split('.');
+	let current = obj;
+	for (let i = 0; i < parts.length - 1; i++) {
+		const part = parts[i];
+		if (!(part in current) || !isPlainObject(current[part])) {
+			current[part] = {};
+		}
+		current = current[part];
+	}
+	current[parts[parts.length - 1]] = value;
+}
+
+export function deleteNestedValue(obj: any, path: string): void {
+	const parts = path.split('.');
+	let current = obj;
+	for (let i = 0; i < parts.length - 1; i++) {
+		current = current?.[parts[i]];
+		if (!isPlainObject(current)) {
+			return;
+		}
+	}
+	delete current[parts[parts.length - 1]];
+}
+
+export interface StatePathChange {
+	path: string;
+	oldValue: any;
+	newValue: any;
+}
+
+// Lists changed leaf paths between two states. Arrays and primitives are compared as a whole.
+export function diffStatePaths(
+	prev: Record<string, any>,
+	next: Record<string, any>,
+	ignoreKeys: string[] = [],
+	prefix: string = '',
+): StatePathChange[] {
+	const changes: StatePathChange[] = [];
+	const keys = new Set([...Object.keys(prev ?? {}), ...Object.keys(next ?? {})]);
+
+	for (const key of keys) {
+		if (!prefix && ignoreKeys.includes(key)) {
+			continue;
+		}
+		const path = prefix ? `${prefix}.${key}` : key;
+		const oldValue = prev?.[key];
+		const newValue = next?.[key];
+
+		if (JSON.stringify(oldValue) === JSON.stringify(newValue)) {
+			continue;
+		}
+		if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+			changes.push(...diffStatePaths(oldValue, newValue, [], path));
+		} else {
+			changes.push({ path, oldValue, newValue });
+		}
+	}
+
+	return changes;
+}
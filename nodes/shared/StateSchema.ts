@@ -0,0 +1,344 @@
+import { getNestedValue, isPlainObject, setNestedValue } from './StatePaths';
+
+export type JsonSchema = Record<string, any>;
+
+export interface StateValidationError {
+	path: string;
+	value: any;
+	error: string;
+}
+
+// A state model is treated as JSON Schema when it describes an object with "properties"
+export function isJsonSchemaModel(model: any): boolean {
+	return isPlainObject(model) && model.type === 'object' && isPlainObject(model.properties);
+}
+
+function getSchemaTypes(schema: JsonSchema): string[] {
+	if (Array.isArray(schema.type)) {
+		return schema.type;
+	}
+	return typeof schema.type === 'string' ? [schema.type] : [];
+}
+
+function describeSchema(schema: JsonSchema): string {
+	const hints: string[] = [];
+	const types = getSchemaTypes(schema).filter((type) => type !== 'null');
+	if (types.length > 0) {
+		hints.push(types.join(' or '));
+	}
+	if (types.includes('array') && isPlainObject(schema.items) && schema.items.type) {
+		hints.push(`items: ${getSchemaTypes(schema.items).join(' or ')}`);
+	}
+	if (typeof schema.format === 'string') {
+		hints.push(`format: ${schema.format}`);
+	}
+	if (Array.isArray(schema.enum)) {
+		hints.push(`one of: ${schema.enum.map((value: any) => JSON.stringify(value)).join(', ')}`);
+	}
+
+	const description = typeof schema.description === 'string' ? schema.description : '';
+	if (hints.length === 0) {
+		return description || 'No description';
+	}
+	return description ? `${description} (${hints.join('; ')})` : `(${hints.join('; ')})`;
+}
+
+// Converts a JSON Schema into the "field: description" map used by the prompts. Nested object
+// schemas become nested maps so dotted paths keep working.
+export function schemaToStateModel(schema: JsonSchema): Record<string, any> {
+	const model: Record<string, any> = {};
+	for (const [key, propertySchema] of Object.entries<JsonSchema>(schema.properties || {})) {
+		if (isJsonSchemaModel(propertySchema)) {
+			model[key] = schemaToStateModel(propertySchema);
+		} else {
+			model[key] = describeSchema(isPlainObject(propertySchema) ? propertySchema : {});
+		}
+	}
+	return model;
+}
+
+const compiledPatterns = new Map<string, RegExp>();
+
+// Compiles a "pattern" once and reuses it. Returns the compile error for invalid patterns.
+function compilePattern(pattern: string): { regex?: RegExp; error?: string } {
+	let regex = compiledPatterns.get(pattern);
+	if (!regex) {
+		try {
+			regex = new RegExp(pattern);
+		} catch (error) {
+			return { error: (error as Error).message };
+		}
+		compiledPatterns.set(pattern, regex);
+	}
+	return { regex };
+}
+
+// Finds the first field whose "pattern" is not a valid regular expression, so a broken schema
+// is reported when the state model is read instead of failing during extraction
+export function findInvalidSchemaPattern(schema: JsonSchema, prefix: string = ''): { path: string; error: string } | null {
+	if (!isPlainObject(schema)) {
+		return null;
+	}
+	if (typeof schema.pattern === 'string') {
+		const { error } = compilePattern(schema.pattern);
+		if (error) {
+			return { path: prefix || '(root)', error };
+		}
+	}
+	if (isPlainObject(schema.items)) {
+		const invalid = findInvalidSchemaPattern(schema.items, `${prefix}[]`);
+		if (invalid) {
+			return invalid;
+		}
+	}
+	for (const [key, propertySchema] of Object.entries<JsonSchema>(isPlainObject(schema.properties) ? schema.properties : {})) {
+		const invalid = findInvalidSchemaPattern(propertySchema, prefix ? `${prefix}.${key}` : key);
+		if (invalid) {
+			return invalid;
+		}
+	}
+	return null;
+}
+
+const formatCheckers: Record<string, (value: string) => string | null> = {
+	email: (value) => (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) ? value.trim().toLowerCase() : null),
+	date: (value) => {
+		if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+			return Number.isNaN(Date.parse(value)) ? null : value;
+		}
+		const time = Date.parse(value);
+		return Number.isNaN(time) ? null : new Date(time).toISOString().slice(0, 10);
+	},
+	'date-time': (value) => {
+		const time = Date.parse(value);
+		return Number.isNaN(time) ? null : new Date(time).toISOString();
+	},
+	uri: (value) => {
+		try {
+			new URL(value);
+			return value;
+		} catch {
+			return null;
+		}
+	},
+	uuid: (value) =>
+		/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value) ? value.toLowerCase() : null,
+};
+
+function coerceToType(value: any, type: string): { ok: boolean; value?: any } {
+	switch (type) {
+		case 'string':
+			if (typeof value === 'string') return { ok: true, value };
+			if (typeof value === 'number' || typeof value === 'boolean') return { ok: true, value: String(value) };
+			return { ok: false };
+		case 'number':
+		case 'integer': {
+			let numeric = value;
+			if (typeof value === 'string') {
+				const trimmed = value.trim().replace(/(\d),(?=\d{3}\b)/g, '$1');
+				numeric = trimmed === '' ? NaN : Number(trimmed);
+			}
+			if (typeof numeric !== 'number' || !Number.isFinite(numeric)) return { ok: false };
+			if (type === 'integer' && !Number.isInteger(numeric)) return { ok: false };
+			return { ok: true, value: numeric };
+		}
+		case 'boolean':
+			if (typeof value === 'boolean') return { ok: true, value };
+			if (typeof value === 'string') {
+				const normalized = value.trim().toLowerCase();
+				if (['true', 'yes', '1'].includes(normalized)) return { ok: true, value: true };
+				if (['false', 'no', '0'].includes(normalized)) return { ok: true, value: false };
+			}
+			if (value === 1 || value === 0) return { ok: true, value: value === 1 };
+			return { ok: false };
+		case 'array':
+			if (Array.isArray(value)) return { ok: true, value };
+			// A single value where a list is expected becomes a one-item list
+			return value === undefined ? { ok: false } : { ok: true, value: [value] };
+		case 'object':
+			return isPlainObject(value) ? { ok: true, value } : { ok: false };
+		case 'null':
+			return value === null ? { ok: true, value } : { ok: false };
+		default:
+			return { ok: true, value };
+	}
+}
+
+// Validates a single value and coerces it where that is safe. Returns the error message when the
+// value has to be rejected.
+export function validateSchemaValue(value: any, schema: JsonSchema): { value?: any; error?: string } {
+	if (!isPlainObject(schema)) {
+		return { value };
+	}
+
+	const types = getSchemaTypes(schema);
+	let coerced = value;
+	if (types.length > 0) {
+		const match = types.map((type) => coerceToType(value, type)).find((result) => result.ok);
+		if (!match) {
+			return { error: `Expected ${types.join(' or ')} but got ${Array.isArray(value) ? 'array' : typeof value}` };
+		}
+		coerced = match.value;
+	}
+
+	if (Array.isArray(schema.enum)) {
+		const exact = schema.enum.find((option: any) => JSON.stringify(option) === JSON.stringify(coerced));
+		const caseInsensitive = typeof coerced === 'string'
+			? schema.enum.find((option: any) => typeof option === 'string' && option.toLowerCase() === coerced.trim().toLowerCase())
+			: undefined;
+		if (exact === undefined && caseInsensitive === undefined) {
+			return { error: `Must be one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}` };
+		}
+		coerced = exact !== undefined ? exact : caseInsensitive;
+	}
+
+	if (typeof coerced === 'string') {
+		if (typeof schema.format === 'string' && formatCheckers[schema.format]) {
+			const formatted = formatCheckers[schema.format](coerced.trim());
+			if (formatted === null) {
+				return { error: `Not a valid ${schema.format}` };
+			}
+			coerced = formatted;
+		}
+		if (typeof schema.minLength === 'number' && coerced.length < schema.minLength) {
+			return { error: `Must be at least ${schema.minLength} characters long` };
+		}
+		if (typeof schema.maxLength === 'number' && coerced.length > schema.maxLength) {
+			return { error: `Must be at most ${schema.maxLength} characters long` };
+		}
+		if (typeof schema.pattern === 'string') {
+			const { regex, error } = compilePattern(schema.pattern);
+			if (!regex) {
+				return { error: `Invalid pattern ${schema.pattern}: ${error}` };
+			}
+			if (!regex.test(coerced)) {
+				return { error: `Must match pattern ${schema.pattern}` };
+			}
+		}
+	}
+
+	if (typeof coerced === 'number') {
+		if (typeof schema.minimum === 'number' && coerced < schema.minimum) {
+			return { error: `Must be >= ${schema.minimum}` };
+		}
+		if (typeof schema.maximum === 'number' && coerced > schema.maximum) {
+			return { error: `Must be <= ${schema.maximum}` };
+		}
+	}
+
+	if (Array.isArray(coerced)) {
+		if (typeof schema.minItems === 'number' && coerced.length < schema.minItems) {
+			return { error: `Must have at least ${schema.minItems} items` };
+		}
+		if (typeof schema.maxItems === 'number' && coerced.length > schema.maxItems) {
+			return { error: `Must have at most ${schema.maxItems} items` };
+		}
+		if (isPlainObject(schema.items)) {
+			const items: any[] = [];
+			for (let index = 0; index < coerced.length; index++) {
+				const item = validateSchemaValue(coerced[index], schema.items);
+				if (item.error) {
+					return { error: `Item ${index}: ${item.error}` };
+				}
+				items.push(item.value);
+			}
+			coerced = items;
+		}
+	}
+
+	if (isPlainObject(coerced) && isPlainObject(schema.properties)) {
+		const validated: Record<string, any> = { ...coerced };
+		for (const [key, propertySchema] of Object.entries<JsonSchema>(schema.properties)) {
+			if (validated[key] === undefined || validated[key] === null) {
+				continue;
+			}
+			const property = validateSchemaValue(validated[key], propertySchema);
+			if (property.error) {
+				return { error: `${key}: ${property.error}` };
+			}
+			validated[key] = property.value;
+		}
+		coerced = validated;
+	}
+
+	return { value: coerced };
+}
+
+// Validates every schema field of the state in place. Rejected values are replaced with the
+// previous value of the field. A null value is accepted unless it would clear a required field.
+export function applyStateSchema(
+	schema: JsonSchema,
+	state: Record<string, any>,
+	prevState: Record<string, any>,
+	prefix: string = '',
+): StateValidationError[] {
+	const errors: StateValidationError[] = [];
+	const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+
+	for (const [key, propertySchema] of Object.entries<JsonSchema>(schema.properties || {})) {
+		const path = prefix ? `${prefix}.${key}` : key;
+		const value = getNestedValue(state, path);
+		const prevValue = getNestedValue(prevState, path);
+
+		if (isJsonSchemaModel(propertySchema) && (value === undefined || isPlainObject(value))) {
+			errors.push(...applyStateSchema(propertySchema, state, prevState, path));
+			continue;
+		}
+
+		if (value === undefined || value === null) {
+			if (required.includes(key) && prevValue !== undefined && prevValue !== null) {
+				errors.push({ path, value, error: 'Required field cannot be cleared' });
+				setNestedValue(state, path, prevValue);
+			}
+			continue;
+		}
+
+		const result = validateSchemaValue(value, propertySchema);
+		if (result.error) {
+			errors.push({ path, value, error: result.error });
+			setNestedValue(state, path, prevValue === undefined ? null : prevValue);
+		} else {
+			setNestedValue(state, path, result.value);
+		}
+	}
+
+	return errors;
+}
+
+// Runs applyStateSchema and keeps the bookkeeping of the nodes in sync: new errors are collected
+// once and fields that fell back to their previous value are no longer reported as changed.
+export function enforceStateSchema(
+	schema: JsonSchema | null,
+	state: Record<string, any>,
+	prevState: Record<string, any>,
+	stateChangedProps: string[],
+	validationErrors: StateValidationError[],
+): void {
+	if (!schema) {
+		return;
+	}
+
+	const errors = applyStateSchema(schema, state, prevState);
+	for (const error of errors) {
+		const known = validationErrors.some(
+			(existing) => existing.path === error.path && JSON.stringify(existing.value) === JSON.stringify(error.value),
+		);
+		if (!known) {
+			validationErrors.push(error);
+		}
+	}
+
+	// Changed props can be top-level keys or full paths, so match errors on either side of the path
+	const touches = (prop: string, path: string) =>
+		prop === path || path.startsWith(`${prop}.`) || prop.startsWith(`${path}.`);
+	for (let index = stateChangedProps.length - 1; index >= 0; index--) {
+		const prop = stateChangedProps[index];
+		const rejected = errors.some((error) => touches(prop, error.path));
+		if (
+			rejected &&
+			JSON.stringify(getNestedValue(state, prop) ?? null) === JSON.stringify(getNestedValue(prevState, prop) ?? null)
+		) {
+			stateChangedProps.splice(index, 1);
+		}
+	}
+}
@@ -0,0 +1,690 @@
+import type { IDataObject, IExecuteFunctions, INodeProperties, ResolvedFilePath } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { JsonPatchOperation } from './JsonPatch';
+import { applyJsonPatch, createJsonPatch } from './JsonPatch';
+import { deleteNestedValue, getNestedValue, setNestedValue } from './StatePaths';
+
+export type StateStorageBackend = 'workflow' | 'staticData' | 'jsonFile' | 'sqlite';
+
+export const STATE_VERSION_KEY = 'state_version';
+
+export type StateWriteMode = 'set' | 'patch';
+
+export interface StateWriteResult {
+	conflict: boolean;
+	currentVersion?: number;
+	// Set when the storage cannot apply patches and the full state has to be sent instead
+	unsupported?: boolean;
+}
+
+export interface StateWriteConflict {
+	attempt: number;
+	expectedVersion: number;
+	currentVersion: number | null;
+}
+
+export interface StateStore {
+	get(): Promise<IDataObject>;
+	// Writes the state only if the stored version still equals expectedVersion
+	set(state: IDataObject, expectedVersion: number): Promise<StateWriteResult>;
+	patch(operations: JsonPatchOperation[], expectedVersion: number): Promise<StateWriteResult>;
+	// Empties the state but keeps counting versions, so writes based on the old state conflict
+	reset(): Promise<void>;
+	// Removes every trace of the session from the storage
+	delete(): Promise<void>;
+}
+
+function resetStateDocument(state: IDataObject | undefined): IDataObject {
+	return { [STATE_VERSION_KEY]: getStateVersion(state) + 1 };
+}
+
+// Lets callers derive extra fields from the state a write attempt is based on
+export type StatePrepareHook = (baseState: IDataObject, nextState: IDataObject) => IDataObject;
+
+// Runs the defined hooks one after another
+export function combinePrepareHooks(...hooks: Array<StatePrepareHook | undefined>): StatePrepareHook | undefined {
+	const defined = hooks.filter((hook): hook is StatePrepareHook => hook !== undefined);
+	if (defined.length === 0) {
+		return undefined;
+	}
+	return (baseState, nextState) => defined.reduce((state, hook) => hook(baseState, state), nextState);
+}
+
+export function getStateVersion(state: IDataObject | undefined): number {
+	const version = Number(state?.[STATE_VERSION_KEY]);
+	return Number.isFinite(version) ? version : 0;
+}
+
+// Used by the built-in backends: the version check in set() keeps read-patch-write atomic
+async function patchViaSet(
+	store: StateStore,
+	operations: JsonPatchOperation[],
+	expectedVersion: number,
+): Promise<StateWriteResult> {
+	const current = await store.get();
+	const currentVersion = getStateVersion(current);
+	if (currentVersion !== expectedVersion) {
+		return { conflict: true, currentVersion };
+	}
+	return await store.set(applyJsonPatch(current, operations), expectedVersion);
+}
+
+export const stateStorageProperties: INodeProperties[] = [
+	{
+		displayName: 'Storage',
+		name: 'storage',
+		type: 'options',
+		options: [
+			{
+				name: 'Custom Workflow',
+				value: 'workflow',
+				description: 'Call a State Management Workflow that stores the state wherever you like',
+			},
+			{
+				name: 'JSON File',
+				value: 'jsonFile',
+				description: 'Store all sessions in a JSON file on the n8n host. Only for a single n8n process.',
+			},
+			{
+				name: 'SQLite',
+				value: 'sqlite',
+				description: 'Store all sessions in an embedded SQLite database file on the n8n host. Needs the optional "sqlite3" package.',
+			},
+			{
+				name: 'Workflow Static Data',
+				value: 'staticData',
+				description: 'Store sessions in the static data of this workflow, shared by all its nodes. Not safe for concurrent executions.',
+			},
+		],
+		default: 'workflow',
+		description: 'Where the conversation state is stored',
+	},
+	{
+		displayName: 'Write Mode',
+		name: 'writeMode',
+		type: 'options',
+		options: [
+			{
+				name: 'Full State',
+				value: 'set',
+				description: 'Send the whole state document with the "set" operation',
+			},
+			{
+				name: 'JSON Patch',
+				value: 'patch',
+				description: 'Send only the changed paths as an RFC 6902 JSON Patch with the "patch" operation',
+			},
+		],
+		default: 'set',
+		description: 'How state changes are written to the storage',
+	},
+	{
+		displayName: 'Max Write Retries',
+		name: 'maxWriteRetries',
+		type: 'number',
+		default: 3,
+		typeOptions: {
+			minValue: 0,
+		},
+		description: 'How many times to re-read and re-merge the state when another execution changed the same session in the meantime',
+	},
+	{
+		displayName: 'State Management Workflow',
+		name: 'stateWorkflowId',
+		type: 'workflowSelector',
+		default: '',
+		required: true,
+		displayOptions: {
+			show: {
+				storage: ['workflow'],
+			},
+		},
+		description: 'Select the workflow that handles state storage. The workflow must have an Execute Workflow Trigger with "operation" (supporting "get", "set", "reset" and "delete" values), "content" and "expectedVersion" input fields.',
+	},
+	{
+		displayName: 'This node will send "get" or "set" to the "operation" field and the state content to the "content" field when calling the State Management Workflow. On "set", "expectedVersion" holds the "state_version" the state was read with: if the stored version differs, the workflow should skip the write and return { "conflict": true }. The AI State Handler session operations send "reset" (empty the state) and "delete" (remove the session). With the JSON Patch write mode, "patch" is sent with an RFC 6902 patch as content; return { "unsupported": true } to have the node fall back to "set". By using this workflow approach, you can track and store state in any way you prefer - whether it\'s in a database, file system, cloud storage, or any other storage solution that fits your needs.',
+		name: 'stateWorkflowInfo',
+		type: 'notice',
+		default: '',
+		displayOptions: {
+			show: {
+				storage: ['workflow'],
+			},
+		},
+	},
+	{
+		displayName: 'Static data is only persisted for production executions of an active workflow. State written during manual test runs is discarded. Executions running at the same time overwrite each other\'s state (the last one to finish wins), so use another storage for concurrent messages.',
+		name: 'staticDataInfo',
+		type: 'notice',
+		default: '',
+		displayOptions: {
+			show: {
+				storage: ['staticData'],
+			},
+		},
+	},
+	{
+		displayName: 'Only one n8n process may use the file. Queue mode workers or several n8n instances sharing it overwrite each other\'s writes, use SQLite or a Custom Workflow there.',
+		name: 'jsonFileInfo',
+		type: 'notice',
+		default: '',
+		displayOptions: {
+			show: {
+				storage: ['jsonFile'],
+			},
+		},
+	},
+	{
+		displayName: 'File Path',
+		name: 'storageFilePath',
+		type: 'string',
+		default: '',
+		required: true,
+		placeholder: '/home/node/.n8n-files/stateful-ai/state.json',
+		displayOptions: {
+			show: {
+				storage: ['jsonFile'],
+			},
+		},
+		description: 'Path of the JSON file that holds the state of all sessions. The file is created if it does not exist.',
+	},
+	{
+		displayName: 'Database Path',
+		name: 'sqliteFilePath',
+		type: 'string',
+		default: '',
+		required: true,
+		placeholder: '/home/node/.n8n-files/stateful-ai/state.sqlite',
+		displayOptions: {
+			show: {
+				storage: ['sqlite'],
+			},
+		},
+		description: 'Path of the SQLite database file that holds the state of all sessions. The file is created if it does not exist.',
+	},
+];
+
+class WorkflowStateStore implements StateStore {
+	constructor(
+		private readonly ctx: IExecuteFunctions,
+		private readonly itemIndex: number,
+		private readonly workflowId: string,
+		private readonly sessionId: string,
+	) {}
+
+	async call(operation: string, content: string = '', extra: IDataObject = {}): Promise<IDataObject> {
+		const inputData: IDataObject = {
+			sessionId: this.sessionId,
+			operation,
+			content,
+			...extra,
+		};
+
+		const result = await this.ctx.executeWorkflow({ id: this.workflowId }, [{ json: inputData }]);
+
+		if (!result?.data?.[0]?.[0]) {
+			throw new NodeOperationError(this.ctx.getNode(), 'State Management workflow returned no data', {
+				itemIndex: this.itemIndex,
+			});
+		}
+
+		return result.data[0][0].json;
+	}
+
+	async get(): Promise<IDataObject> {
+		return (await this.call('get')) || {};
+	}
+
+	async set(state: IDataObject, expectedVersion: number): Promise<StateWriteResult> {
+		const result = await this.call('set', JSON.stringify(state), { expectedVersion });
+		if (result.conflict === true) {
+			return {
+				conflict: true,
+				currentVersion: result.version !== undefined ? Number(result.version) : undefined,
+			};
+		}
+		return { conflict: false };
+	}
+
+	async patch(operations: JsonPatchOperation[], expectedVersion: number): Promise<StateWriteResult> {
+		const result = await this.call('patch', JSON.stringify(operations), { expectedVersion });
+		if (result.unsupported === true) {
+			return { conflict: false, unsupported: true };
+		}
+		if (result.conflict === true) {
+			return {
+				conflict: true,
+				currentVersion: result.version !== undefined ? Number(result.version) : undefined,
+			};
+		}
+		return { conflict: false };
+	}
+
+	async reset(): Promise<void> {
+		await this.call('reset');
+	}
+
+	async delete(): Promise<void> {
+		await this.call('delete');
+	}
+}
+
+// Sessions live in the global static data, so every node of the workflow sees the same sessions
+const STATIC_DATA_SESSIONS_KEY = 'statefulAiSessions';
+
+// Each execution works on its own copy of the static data and n8n saves the whole object when the
+// execution ends, so the last execution to finish wins. A version check here could not see the
+// writes of concurrent executions, so this store has none.
+class StaticDataStateStore implements StateStore {
+	constructor(
+		private readonly ctx: IExecuteFunctions,
+		private readonly sessionId: string,
+	) {}
+
+	private sessions(): IDataObject {
+		const staticData = this.ctx.getWorkflowStaticData('global');
+		if (typeof staticData[STATIC_DATA_SESSIONS_KEY] !== 'object' || staticData[STATIC_DATA_SESSIONS_KEY] === null) {
+			staticData[STATIC_DATA_SESSIONS_KEY] = {};
+		}
+		return staticData[STATIC_DATA_SESSIONS_KEY] as IDataObject;
+	}
+
+	async get(): Promise<IDataObject> {
+		const state = this.sessions()[this.sessionId];
+		// Hand out a copy so in-place changes never leak into static data before set()
+		return state ? JSON.parse(JSON.stringify(state)) : {};
+	}
+
+	async set(state: IDataObject): Promise<StateWriteResult> {
+		this.sessions()[this.sessionId] = JSON.parse(JSON.stringify(state));
+		return { conflict: false };
+	}
+
+	async patch(operations: JsonPatchOperation[]): Promise<StateWriteResult> {
+		return await this.set(applyJsonPatch(await this.get(), operations));
+	}
+
+	async reset(): Promise<void> {
+		const sessions = this.sessions();
+		if (this.sessionId in sessions) {
+			sessions[this.sessionId] = resetStateDocument(sessions[this.sessionId] as IDataObject);
+		}
+	}
+
+	async delete(): Promise<void> {
+		delete this.sessions()[this.sessionId];
+	}
+}
+
+// Resolves a storage file through the n8n file helpers, so the file access restrictions of the
+// instance apply, and creates its folder
+async function resolveStorageFile(ctx: IExecuteFunctions, itemIndex: number, filePath: string): Promise<ResolvedFilePath> {
+	const resolvedPath = await ctx.helpers.resolvePath(filePath);
+	if (ctx.helpers.isFilePathBlocked(resolvedPath)) {
+		throw new NodeOperationError(ctx.getNode(), `Access to the storage file "${filePath}" is not allowed`, {
+			itemIndex,
+			description: 'Choose a path in a folder n8n may access, see N8N_RESTRICT_FILE_ACCESS_TO',
+		});
+	}
+	await ctx.helpers.ensureParentDirectoryWithoutFollowingSymlinks(resolvedPath);
+	return resolvedPath;
+}
+
+function isMissingFileError(error: unknown): boolean {
+	// The n8n file helpers wrap the file system error
+	const cause = (error as { cause?: unknown }).cause;
+	return (error as NodeJS.ErrnoException).code === 'ENOENT' || (cause as NodeJS.ErrnoException | undefined)?.code === 'ENOENT';
+}
+
+// Serializes read-modify-write cycles on the same file within this n8n process. Other processes
+// (queue mode workers, a second instance) do not see this lock, so the JSON file store only keeps
+// the version check reliable for a single process.
+const fileLocks = new Map<string, Promise<unknown>>();
+
+async function withFileLock<T>(filePath: string, fn: () => Promise<T>): Promise<T> {
+	const previous = fileLocks.get(filePath) ?? Promise.resolve();
+	const current = previous.catch(() => undefined).then(fn);
+	fileLocks.set(filePath, current);
+	try {
+		return await current;
+	} finally {
+		if (fileLocks.get(filePath) === current) {
+			fileLocks.delete(filePath);
+		}
+	}
+}
+
+class JsonFileStateStore implements StateStore {
+	private resolvedPath?: Promise<ResolvedFilePath>;
+
+	constructor(
+		private readonly ctx: IExecuteFunctions,
+		private readonly itemIndex: number,
+		private readonly filePath: string,
+		private readonly sessionId: string,
+	) {}
+
+	private async resolveFilePath(): Promise<ResolvedFilePath> {
+		if (!this.resolvedPath) {
+			this.resolvedPath = resolveStorageFile(this.ctx, this.itemIndex, this.filePath);
+		}
+		return await this.resolvedPath;
+	}
+
+	private async readSessions(): Promise<IDataObject> {
+		const filePath = await this.resolveFilePath();
+		let raw: string;
+		try {
+			raw = await this.ctx.helpers.binaryToString(await this.ctx.helpers.createReadStream(filePath), 'utf8');
+		} catch (error) {
+			if (isMissingFileError(error)) {
+				return {};
+			}
+			throw new NodeOperationError(this.ctx.getNode(), error as Error, { itemIndex: this.itemIndex });
+		}
+		return raw.trim() ? JSON.parse(raw) : {};
+	}
+
+	private async writeSessions(sessions: IDataObject): Promise<void> {
+		await this.ctx.helpers.writeContentToFile(await this.resolveFilePath(), JSON.stringify(sessions, null, 2));
+	}
+
+	async get(): Promise<IDataObject> {
+		return await withFileLock(this.filePath, async () => {
+			const sessions = await this.readSessions();
+			return (sessions[this.sessionId] as IDataObject) || {};
+		});
+	}
+
+	async set(state: IDataObject, expectedVersion: number): Promise<StateWriteResult> {
+		return await withFileLock(this.filePath, async () => {
+			const sessions = await this.readSessions();
+			const currentVersion = getStateVersion(sessions[this.sessionId] as IDataObject);
+			if (currentVersion !== expectedVersion) {
+				return { conflict: true, currentVersion };
+			}
+			sessions[this.sessionId] = state;
+			await this.writeSessions(sessions);
+			return { conflict: false };
+		});
+	}
+
+	async patch(operations: JsonPatchOperation[], expectedVersion: number): Promise<StateWriteResult> {
+		return await patchViaSet(this, operations, expectedVersion);
+	}
+
+	async reset(): Promise<void> {
+		await withFileLock(this.filePath, async () => {
+			const sessions = await this.readSessions();
+			if (this.sessionId in sessions) {
+				sessions[this.sessionId] = resetStateDocument(sessions[this.sessionId] as IDataObject);
+				await this.writeSessions(sessions);
+			}
+		});
+	}
+
+	async delete(): Promise<void> {
+		await withFileLock(this.filePath, async () => {
+			const sessions = await this.readSessions();
+			if (this.sessionId in sessions) {
+				delete sessions[this.sessionId];
+				await this.writeSessions(sessions);
+			}
+		});
+	}
+}
+
+interface SqliteDatabase {
+	run(sql: string, params: unknown[], callback: (this: { changes: number }, error: Error | null) => void): void;
+	get(sql: string, params: unknown[], callback: (error: Error | null, row: any) => void): void;
+}
+
+const sqliteDatabases = new Map<string, Promise<SqliteDatabase>>();
+
+// sqlite3 is not a dependency of the package because it needs a native build. It is only loaded
+// when this backend is used and is resolved from the folder n8n installs community nodes into.
+async function loadSqlite3(ctx: IExecuteFunctions, itemIndex: number): Promise<typeof import('sqlite3')> {
+	try {
+		return await import('sqlite3');
+	} catch (error) {
+		throw new NodeOperationError(ctx.getNode(), 'The SQLite storage needs the "sqlite3" package, which could not be loaded', {
+			itemIndex,
+			description: `Run "npm install sqlite3" in the community nodes folder of n8n (~/.n8n/nodes) and restart n8n, or choose another storage. ${(error as Error).message}`,
+		});
+	}
+}
+
+async function openSqliteDatabase(ctx: IExecuteFunctions, itemIndex: number, filePath: string): Promise<SqliteDatabase> {
+	let database = sqliteDatabases.get(filePath);
+	if (!database) {
+		database = (async () => {
+			const sqlite3 = await loadSqlite3(ctx, itemIndex);
+			const resolvedPath = await resolveStorageFile(ctx, itemIndex, filePath);
+			try {
+				const db = await new Promise<SqliteDatabase>((resolve, reject) => {
+					const instance = new sqlite3.Database(resolvedPath, (error) => (error ? reject(error) : resolve(instance)));
+				});
+				await sqliteRun(
+					db,
+					'CREATE TABLE IF NOT EXISTS stateful_ai_state (session_id TEXT PRIMARY KEY, content TEXT NOT NULL, updated_at TEXT NOT NULL)',
+				);
+				return db;
+			} catch (error) {
+				throw new NodeOperationError(ctx.getNode(), `The SQLite storage could not open the database "${filePath}"`, {
+					itemIndex,
+					description: `The database is opened with the optional "sqlite3" package. ${(error as Error).message}`,
+				});
+			}
+		})();
+		sqliteDatabases.set(filePath, database);
+		database.catch(() => sqliteDatabases.delete(filePath));
+	}
+	return await database;
+}
+
+// Resolves with the number of rows changed by the statement
+function sqliteRun(db: SqliteDatabase, sql: string, params: unknown[] = []): Promise<number> {
+	return new Promise((resolve, reject) => {
+		db.run(sql, params, function (error) {
+			if (error) {
+				reject(error);
+			} else {
+				resolve(this.changes);
+			}
+		});
+	});
+}
+
+function sqliteGet(db: SqliteDatabase, sql: string, params: unknown[] = []): Promise<any> {
+	return new Promise((resolve, reject) => {
+		db.get(sql, params, (error, row) => (error ? reject(error) : resolve(row)));
+	});
+}
+
+class SqliteStateStore implements StateStore {
+	constructor(
+		private readonly ctx: IExecuteFunctions,
+		private readonly itemIndex: number,
+		private readonly filePath: string,
+		private readonly sessionId: string,
+	) {}
+
+	async get(): Promise<IDataObject> {
+		const db = await openSqliteDatabase(this.ctx, this.itemIndex, this.filePath);
+		const row = await sqliteGet(db, 'SELECT content FROM stateful_ai_state WHERE session_id = ?', [
+			this.sessionId,
+		]);
+		return row ? JSON.parse(row.content) : {};
+	}
+
+	async set(state: IDataObject, expectedVersion: number): Promise<StateWriteResult> {
+		const db = await openSqliteDatabase(this.ctx, this.itemIndex, this.filePath);
+		const content = JSON.stringify(state);
+		const updatedAt = new Date().toISOString();
+
+		// The version check is part of the statement, so the compare-and-set is atomic
+		let changes = await sqliteRun(
+			db,
+			`UPDATE stateful_ai_state SET content = ?, updated_at = ? WHERE session_id = ? AND COALESCE(json_extract(content, '$.${STATE_VERSION_KEY}'), 0) = ?`,
+			[content, updatedAt, this.sessionId, expectedVersion],
+		);
+		if (changes === 0 && expectedVersion === 0) {
+			changes = await sqliteRun(
+				db,
+				'INSERT INTO stateful_ai_state (session_id, content, updated_at) VALUES (?, ?, ?) ON CONFLICT(session_id) DO NOTHING',
+				[this.sessionId, content, updatedAt],
+			);
+		}
+		if (changes === 0) {
+			return { conflict: true, currentVersion: getStateVersion(await this.get()) };
+		}
+		return { conflict: false };
+	}
+
+	async patch(operations: JsonPatchOperation[], expectedVersion: number): Promise<StateWriteResult> {
+		return await patchViaSet(this, operations, expectedVersion);
+	}
+
+	async reset(): Promise<void> {
+		const db = await openSqliteDatabase(this.ctx, this.itemIndex, this.filePath);
+		await sqliteRun(
+			db,
+			`UPDATE stateful_ai_state SET content = json_object('${STATE_VERSION_KEY}', COALESCE(json_extract(content, '$.${STATE_VERSION_KEY}'), 0) + 1), updated_at = ? WHERE session_id = ?`,
+			[new Date().toISOString(), this.sessionId],
+		);
+	}
+
+	async delete(): Promise<void> {
+		const db = await openSqliteDatabase(this.ctx, this.itemIndex, this.filePath);
+		await sqliteRun(db, 'DELETE FROM stateful_ai_state WHERE session_id = ?', [this.sessionId]);
+	}
+}
+
+export function getStateStore(ctx: IExecuteFunctions, itemIndex: number, sessionId: string): StateStore {
+	const storage = ctx.getNodeParameter('storage', itemIndex, 'workflow') as StateStorageBackend;
+
+	if (storage === 'staticData') {
+		return new StaticDataStateStore(ctx, sessionId);
+	}
+
+	if (storage === 'jsonFile' || storage === 'sqlite') {
+		const parameterName = storage === 'jsonFile' ? 'storageFilePath' : 'sqliteFilePath';
+		const filePath = (ctx.getNodeParameter(parameterName, itemIndex, '') as string).trim();
+		if (!filePath) {
+			throw new NodeOperationError(ctx.getNode(), 'A file path is required for the selected storage.', {
+				itemIndex,
+			});
+		}
+		return storage === 'jsonFile'
+			? new JsonFileStateStore(ctx, itemIndex, filePath, sessionId)
+			: new SqliteStateStore(ctx, itemIndex, filePath, sessionId);
+	}
+
+	const stateWorkflowIdParam = ctx.getNodeParameter('stateWorkflowId', itemIndex);
+	const stateWorkflowId = typeof stateWorkflowIdParam === 'object' && stateWorkflowIdParam !== null
+		? (stateWorkflowIdParam as IDataObject).value as string
+		: stateWorkflowIdParam as string;
+
+	if (!stateWorkflowId) {
+		throw new NodeOperationError(ctx.getNode(), 'State Management Workflow is required. Please select a workflow.', {
+			itemIndex,
+		});
+	}
+
+	return new WorkflowStateStore(ctx, itemIndex, stateWorkflowId, sessionId);
+}
+
+// Re-applies the changes made on top of baseState to the latest stored state. Changed props can
+// be top-level keys or nested paths like "address.city". Arrays that were only appended to
+// (like conversation_history) keep the entries written concurrently.
+export function rebaseState(
+	latestState: IDataObject,
+	baseState: IDataObject,
+	state: IDataObject,
+	changedProps: string[],
+): IDataObject {
+	const merged: IDataObject = JSON.parse(JSON.stringify(latestState));
+	for (const path of changedProps) {
+		const baseValue = getNestedValue(baseState, path);
+		const value = getNestedValue(state, path);
+		const latestValue = getNestedValue(latestState, path);
+		if (Array.isArray(baseValue) && Array.isArray(value) && Array.isArray(latestValue)
+			&& JSON.stringify(value.slice(0, baseValue.length)) === JSON.stringify(baseValue)) {
+			setNestedValue(merged, path, [...latestValue, ...value.slice(baseValue.length)]);
+		} else if (value !== undefined) {
+			setNestedValue(merged, path, value);
+		} else {
+			deleteNestedValue(merged, path);
+		}
+	}
+	return merged;
+}
+
+export async function commitState(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	store: StateStore,
+	prevState: IDataObject,
+	state: IDataObject,
+	changedProps: string[],
+	prepareState?: StatePrepareHook,
+): Promise<{ state: IDataObject; conflicts: StateWriteConflict[] }> {
+	const maxWriteRetries = ctx.getNodeParameter('maxWriteRetries', itemIndex, 3) as number;
+	let writeMode = ctx.getNodeParameter('writeMode', itemIndex, 'set') as StateWriteMode;
+	const conflicts: StateWriteConflict[] = [];
+
+	// The state the expected version refers to, used as the base of the patch
+	let baseState = prevState;
+	let expectedVersion = getStateVersion(prevState);
+	// Only the changed props are written, on the first attempt as on retries, so stored keys the
+	// node did not rebuild are kept either way
+	let nextState: IDataObject = {
+		...rebaseState(prevState, prevState, state, changedProps),
+		[STATE_VERSION_KEY]: expectedVersion + 1,
+	};
+
+	for (let attempt = 0; ; attempt++) {
+		if (prepareState) {
+			nextState = prepareState(baseState, nextState);
+		}
+
+		let result: StateWriteResult | undefined;
+		if (writeMode === 'patch') {
+			result = await store.patch(createJsonPatch(baseState, nextState), expectedVersion);
+			if (result.unsupported) {
+				writeMode = 'set';
+			}
+		}
+		if (writeMode === 'set') {
+			result = await store.set(nextState, expectedVersion);
+		}
+		if (!result?.conflict) {
+			return { state: nextState, conflicts };
+		}
+
+		conflicts.push({
+			attempt: attempt + 1,
+			expectedVersion,
+			currentVersion: result.currentVersion ?? null,
+		});
+
+		if (attempt >= maxWriteRetries) {
+			throw new NodeOperationError(
+				ctx.getNode(),
+				`State write conflict: the session was modified by another execution ${conflicts.length} time(s) in a row`,
+				{
+					itemIndex,
+					description: JSON.stringify(conflicts),
+				},
+			);
+		}
+
+		const latestState = await store.get();
+		baseState = latestState;
+		expectedVersion = getStateVersion(latestState);
+		nextState = {
+			...rebaseState(latestState, prevState, state, changedProps),
+			[STATE_VERSION_KEY]: expectedVersion + 1,
+		};
+	}
+}
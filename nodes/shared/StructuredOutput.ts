@@ -0,0 +1,266 @@
+import type { ChatPromptTemplate } from '@langchain/core/prompts';
+import { RunnableSequence } from '@langchain/core/runnables';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import { AIMessage, HumanMessage } from '@langchain/core/messages';
+import type { IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+import { repairJson } from './JsonRepair';
+import { isPlainObject } from './StatePaths';
+import type { JsonSchema } from './StateSchema';
+import type { UsageTracker } from './UsageTracker';
+
+export type JsonRepairStrategy = 'none' | 'repair' | 'repairAndRetry';
+
+export interface JsonRepairSettings {
+	strategy: JsonRepairStrategy;
+	maxRetries: number;
+}
+
+export interface JsonStageAttempt {
+	stage: string;
+	attempt: number;
+	method: 'structured' | 'text' | 'repair' | 'reprompt';
+	success: boolean;
+	error?: string;
+	output?: string;
+}
+
+export interface JsonStageOptions {
+	stage: string;
+	clean: (text: string) => string;
+	repair: JsonRepairSettings;
+	debug?: JsonStageAttempt[];
+	usage?: UsageTracker;
+}
+
+export interface StageOutputOptions {
+	tools?: boolean;
+	response?: boolean;
+	postAnalysis?: boolean;
+}
+
+export const jsonRepairProperties: INodeProperties[] = [
+	{
+		displayName: 'JSON Repair',
+		name: 'jsonRepair',
+		type: 'options',
+		options: [
+			{
+				name: 'Local Repair and Re-Prompt',
+				value: 'repairAndRetry',
+				description: 'Repair the reply locally, then ask the LLM again with the parse error',
+			},
+			{
+				name: 'Local Repair Only',
+				value: 'repair',
+				description: 'Fix trailing commas, single quotes, unclosed braces and prose around the JSON',
+			},
+			{
+				name: 'None',
+				value: 'none',
+				description: 'Fail on the first reply that is not valid JSON',
+			},
+		],
+		default: 'repairAndRetry',
+		description: 'How to handle LLM replies that are not valid JSON',
+	},
+	{
+		displayName: 'Max JSON Re-Prompts',
+		name: 'maxJsonRetries',
+		type: 'number',
+		default: 2,
+		typeOptions: {
+			minValue: 0,
+		},
+		displayOptions: {
+			show: {
+				jsonRepair: ['repairAndRetry'],
+			},
+		},
+		description: 'How often the LLM is asked again per step before giving up',
+	},
+	{
+		displayName: 'Include Debug Output',
+		name: 'includeDebugOutput',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to add a "debug" field listing every LLM attempt of the JSON steps with its method, error and raw reply',
+	},
+];
+
+export function getJsonRepairSettings(ctx: IExecuteFunctions, itemIndex: number): JsonRepairSettings {
+	return {
+		strategy: ctx.getNodeParameter('jsonRepair', itemIndex, 'repairAndRetry') as JsonRepairStrategy,
+		maxRetries: ctx.getNodeParameter('maxJsonRetries', itemIndex, 2) as number,
+	};
+}
+
+// Models that can call tools also support withStructuredOutput. Older or text-only models
+// either lack the method or only have the default implementation that needs bindTools.
+export function supportsStructuredOutput(llm: any): boolean {
+	return typeof llm?.withStructuredOutput === 'function' && typeof llm?.bindTools === 'function';
+}
+
+// "required" means "cannot be cleared" for state models, so it is dropped here. Otherwise the model
+// would be forced to invent values for fields the user has not mentioned yet.
+function withoutRequired(schema: JsonSchema): JsonSchema {
+	const rest = { ...schema };
+	delete rest.required;
+	if (isPlainObject(rest.properties)) {
+		rest.properties = Object.fromEntries(
+			Object.entries<JsonSchema>(rest.properties).map(([key, value]) => [
+				key,
+				isPlainObject(value) ? withoutRequired(value) : value,
+			]),
+		);
+	}
+	if (isPlainObject(rest.items)) {
+		rest.items = withoutRequired(rest.items);
+	}
+	return rest;
+}
+
+// JSON Schema of the state object. A JSON Schema state model is used as is, a description map
+// becomes untyped properties (nested maps become nested objects).
+export function buildStateOutputSchema(stateModel: Record<string, any>, stateSchema: JsonSchema | null): JsonSchema {
+	if (stateSchema) {
+		return withoutRequired(stateSchema);
+	}
+
+	const properties: Record<string, JsonSchema> = {};
+	for (const [key, value] of Object.entries(stateModel)) {
+		properties[key] = isPlainObject(value)
+			? buildStateOutputSchema(value, null)
+			: { description: typeof value === 'string' ? value : JSON.stringify(value) };
+	}
+	return { type: 'object', properties };
+}
+
+// JSON Schema of the tools_to_invoke list of the planning steps
+export const toolInvocationsSchema: JsonSchema = {
+	type: 'array',
+	description: 'Tools needed for missing state data that cannot be extracted from the message',
+	items: {
+		type: 'object',
+		properties: {
+			tool_name: { type: 'string' },
+			reason: { type: 'string' },
+			state_field: { type: 'string', description: 'State field the tool result belongs to' },
+			input_params: { type: 'object' },
+		},
+		required: ['tool_name'],
+	},
+};
+
+// JSON Schema of the "{ state, tools_to_invoke, response }" objects the combined stages return
+export function buildStageOutputSchema(
+	stateModel: Record<string, any>,
+	stateSchema: JsonSchema | null,
+	options: StageOutputOptions = {},
+): JsonSchema {
+	const properties: Record<string, JsonSchema> = {
+		state: {
+			...buildStateOutputSchema(stateModel, stateSchema),
+			description: 'All state model fields. Use null for fields without a value.',
+		},
+	};
+	const required = ['state'];
+
+	if (options.tools) {
+		properties.tools_to_invoke = toolInvocationsSchema;
+		required.push('tools_to_invoke');
+	}
+	if (options.postAnalysis) {
+		properties.fields_needing_post_analysis = {
+			type: 'array',
+			description: 'State fields that need another look once the tool results are available',
+			items: { type: 'string' },
+		};
+	}
+	if (options.response) {
+		properties.response = { type: 'string', description: 'Your response to the user' };
+		required.push('response');
+	}
+
+	return { type: 'object', properties, required };
+}
+
+// Runs a JSON producing prompt and returns the parsed object. When the model supports it, the
+// output is requested through its structured output interface. Otherwise, or when that call fails,
+// the text reply is parsed, repaired and, depending on the repair strategy, the model is asked
+// again with the parse error. Every attempt is added to options.debug.
+export async function invokeJsonStage(
+	llm: any,
+	prompt: ChatPromptTemplate,
+	input: Record<string, any>,
+	outputSchema: JsonSchema,
+	options: JsonStageOptions,
+): Promise<Record<string, any>> {
+	const { stage, clean, repair, debug, usage } = options;
+	const config = { callbacks: usage?.callbacks(stage, llm) };
+	let attempt = 1;
+	const record = (entry: Omit<JsonStageAttempt, 'stage' | 'attempt'>) => {
+		debug?.push({ stage, attempt, ...entry });
+	};
+
+	if (supportsStructuredOutput(llm)) {
+		try {
+			const structuredChain = RunnableSequence.from([
+				prompt,
+				llm.withStructuredOutput(outputSchema, { name: 'update_state' }),
+			]) as any;
+			const result = await structuredChain.invoke(input, config);
+			if (isPlainObject(result)) {
+				record({ method: 'structured', success: true });
+				return result;
+			}
+			record({ method: 'structured', success: false, error: 'Structured output is not an object' });
+		} catch (error) {
+			record({ method: 'structured', success: false, error: (error as Error).message });
+		}
+		attempt++;
+	}
+
+	const messages = await prompt.formatMessages(input);
+	const outputParser = new StringOutputParser();
+	let text = await outputParser.invoke(await llm.invoke(messages, config));
+
+	for (let retry = 0; ; retry++) {
+		const method = retry === 0 ? 'text' : 'reprompt';
+		let parseError: string;
+		try {
+			const parsed = JSON.parse(clean(text));
+			if (!isPlainObject(parsed)) {
+				throw new Error('Expected a JSON object');
+			}
+			record({ method, success: true });
+			return parsed;
+		} catch (error) {
+			parseError = (error as Error).message;
+			record({ method, success: false, error: parseError, output: text });
+		}
+
+		if (repair.strategy !== 'none') {
+			try {
+				const repaired = JSON.parse(repairJson(text));
+				if (!isPlainObject(repaired)) {
+					throw new Error('Expected a JSON object');
+				}
+				record({ method: 'repair', success: true });
+				return repaired;
+			} catch (error) {
+				record({ method: 'repair', success: false, error: (error as Error).message });
+			}
+		}
+
+		if (repair.strategy !== 'repairAndRetry' || retry >= repair.maxRetries) {
+			throw new Error(parseError);
+		}
+
+		attempt++;
+		text = await outputParser.invoke(await llm.invoke([
+			...messages,
+			new AIMessage(text),
+			new HumanMessage(`Your reply could not be parsed as JSON (${parseError}). Return ONLY the corrected, complete JSON object without any other text.`),
+		], config));
+	}
+}
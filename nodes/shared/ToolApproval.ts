@@ -0,0 +1,216 @@
+import type { IDisplayOptions, IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { randomUUID } from 'crypto';
+import { isPlainObject } from './StatePaths';
+import type { ToolInvocation, ToolInvocationResult } from './ToolRunner';
+
+export const PENDING_TOOL_APPROVALS_KEY = 'pending_tool_approvals';
+
+export type ToolApprovalDecision = 'none' | 'approve' | 'reject';
+
+// A turn paused for approval, stored in the session until a decision resumes it
+export interface PendingToolApprovals {
+	id: string;
+	requested_at: string;
+	// User message of the paused turn, the resumed run continues with it
+	message: string;
+	// Tool round the calls were planned in
+	round: number;
+	tools: ToolInvocation[];
+	// Results of the calls of the turn that already ran, for the post-tool step
+	completed: ToolInvocationResult[];
+}
+
+export interface ToolApprovalSettings {
+	toolNames: string[];
+	decision: ToolApprovalDecision;
+	// ID of the pending request the decision is for
+	requestId: string;
+}
+
+export function toolApprovalProperties(displayOptions?: IDisplayOptions): INodeProperties[] {
+	return [
+		{
+			displayName: 'Tools Requiring Approval',
+			name: 'toolsRequiringApproval',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g. issue_refund, delete_account',
+			...(displayOptions ? { displayOptions } : {}),
+			description: 'Comma-separated names of tools that only run after a human approves the call. Planned calls of these tools pause the turn and are sent to the "Approval Needed" output.',
+		},
+		{
+			displayName: 'Approval Decision',
+			name: 'approvalDecision',
+			type: 'options',
+			options: [
+				{
+					name: 'None',
+					value: 'none',
+					description: 'Process the message. Calls still waiting for approval are discarded.',
+				},
+				{
+					name: 'Approve',
+					value: 'approve',
+					description: 'Run the calls waiting for approval and finish the paused turn',
+				},
+				{
+					name: 'Reject',
+					value: 'reject',
+					description: 'Discard the calls waiting for approval and finish the paused turn',
+				},
+			],
+			default: 'none',
+			displayOptions: {
+				...displayOptions,
+				hide: {
+					...displayOptions?.hide,
+					toolsRequiringApproval: [''],
+				},
+			},
+			description: 'Decision on the tool calls the session is waiting for, usually set with an expression from the approval step',
+		},
+		{
+			displayName: 'Approval Request ID',
+			name: 'approvalRequestId',
+			type: 'string',
+			default: '',
+			required: true,
+			displayOptions: {
+				...displayOptions,
+				show: {
+					...displayOptions?.show,
+					approvalDecision: ['approve', 'reject'],
+				},
+			},
+			description: 'ID of the pending request the decision is for, usually set with an expression from "pendingToolApprovals" of the Approval Needed output. A decision for any other request fails.',
+		},
+	];
+}
+
+export function getToolApprovalSettings(ctx: IExecuteFunctions, itemIndex: number): ToolApprovalSettings {
+	const toolNames = (ctx.getNodeParameter('toolsRequiringApproval', itemIndex, '') as string)
+		.split(',')
+		.map((name) => name.trim().toLowerCase())
+		.filter((name) => name.length > 0);
+	const decision = toolNames.length > 0
+		? (ctx.getNodeParameter('approvalDecision', itemIndex, 'none') as ToolApprovalDecision)
+		: 'none';
+	return {
+		toolNames,
+		decision,
+		requestId: decision !== 'none'
+			? (ctx.getNodeParameter('approvalRequestId', itemIndex, '') as string).trim()
+			: '',
+	};
+}
+
+export function requiresApproval(toolName: string, settings: ToolApprovalSettings): boolean {
+	return typeof toolName === 'string' && settings.toolNames.includes(toolName.toLowerCase());
+}
+
+export function getPendingToolApprovals(state: Record<string, any>): PendingToolApprovals | null {
+	const pending = state?.[PENDING_TOOL_APPROVALS_KEY];
+	return isPlainObject(pending) && Array.isArray(pending.tools) ? (pending as PendingToolApprovals) : null;
+}
+
+// Returns the paused turn when the run carries a decision for it. The decision has to name the
+// pending request, so a late decision never applies to calls planned after it. The decided calls
+// are marked approved, or refused when rejected.
+export function resumeToolApprovals(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	state: Record<string, any>,
+	settings: ToolApprovalSettings,
+): PendingToolApprovals | null {
+	if (settings.decision === 'none') {
+		return null;
+	}
+
+	const pending = getPendingToolApprovals(state);
+	if (!pending) {
+		throw new NodeOperationError(ctx.getNode(), 'No tool calls are waiting for approval in this session', {
+			itemIndex,
+			description: 'Set "Approval Decision" to "None" to process a message',
+		});
+	}
+	if (pending.id !== settings.requestId) {
+		throw new NodeOperationError(
+			ctx.getNode(),
+			`The approval decision is for request "${settings.requestId}", but the session is waiting for request "${pending.id}"`,
+			{
+				itemIndex,
+				description: 'The decision was probably made for an earlier request. Ask for a decision on the pending calls again.',
+			},
+		);
+	}
+
+	return {
+		...pending,
+		tools: pending.tools.map((invocation) => settings.decision === 'approve'
+			? { ...invocation, approved: true }
+			: { ...invocation, refused_reason: 'Rejected by the reviewer' }),
+	};
+}
+
+// The request a new message discards: processing a message without a decision drops the calls
+// that were still waiting for approval
+export function getDiscardedToolApprovals(
+	state: Record<string, any>,
+	settings: ToolApprovalSettings,
+): PendingToolApprovals | null {
+	return settings.decision === 'none' ? getPendingToolApprovals(state) : null;
+}
+
+// Splits the calls of a round into the ones that can run and the ones that wait for approval.
+// Refused and invalid calls are never sent for approval, they fail without running.
+export function splitToolApprovals(
+	invocations: ToolInvocation[],
+	settings: ToolApprovalSettings,
+): { runnable: ToolInvocation[]; awaiting: ToolInvocation[] } {
+	const runnable: ToolInvocation[] = [];
+	const awaiting: ToolInvocation[] = [];
+	for (const invocation of invocations) {
+		const blocked = invocation.refused_reason !== undefined || (invocation.input_errors?.length ?? 0) > 0;
+		if (!blocked && !invocation.approved && requiresApproval(invocation.tool_name, settings)) {
+			awaiting.push(invocation);
+		} else {
+			runnable.push(invocation);
+		}
+	}
+	return { runnable, awaiting };
+}
+
+export function createPendingToolApprovals(
+	message: string,
+	round: number,
+	tools: ToolInvocation[],
+	completed: ToolInvocationResult[],
+): PendingToolApprovals {
+	return {
+		id: randomUUID(),
+		requested_at: new Date().toISOString(),
+		message,
+		round,
+		tools,
+		completed,
+	};
+}
+
+// Stores a new request in the state. Without one, a request from an earlier turn is removed:
+// it was either resumed by this run or discarded by a new message.
+export function updatePendingToolApprovals(
+	state: Record<string, any>,
+	prevState: Record<string, any>,
+	stateChangedProps: string[],
+	request: PendingToolApprovals | null,
+): void {
+	if (request) {
+		state[PENDING_TOOL_APPROVALS_KEY] = request;
+	} else {
+		delete state[PENDING_TOOL_APPROVALS_KEY];
+	}
+	if ((request || PENDING_TOOL_APPROVALS_KEY in prevState) && !stateChangedProps.includes(PENDING_TOOL_APPROVALS_KEY)) {
+		stateChangedProps.push(PENDING_TOOL_APPROVALS_KEY);
+	}
+}
@@ -0,0 +1,202 @@
+import type { IDataObject, IDisplayOptions, IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+import { isPlainObject } from './StatePaths';
+
+export const TOOL_CACHE_KEY = 'tool_cache';
+
+export interface ToolCacheEntry {
+	tool_name: string;
+	input: Record<string, any>;
+	result: any;
+	cached_at: string;
+	// null when the entry never expires
+	expires_at: string | null;
+}
+
+export interface ToolCacheSettings {
+	enabled: boolean;
+	// Seconds, 0 for entries that never expire
+	ttl: number;
+	toolTtls: Record<string, number>;
+	excludedTools: string[];
+}
+
+export function toolCacheProperties(displayOptions?: IDisplayOptions): INodeProperties[] {
+	const showWithCache: IDisplayOptions = {
+		...displayOptions,
+		show: {
+			...displayOptions?.show,
+			cacheToolResults: [true],
+		},
+	};
+
+	return [
+		{
+			displayName: 'Cache Tool Results',
+			name: 'cacheToolResults',
+			type: 'boolean',
+			default: false,
+			...(displayOptions ? { displayOptions } : {}),
+			description: 'Whether to keep successful tool results in the session and reuse them when a tool is called again with the same input',
+		},
+		{
+			displayName: 'Cache TTL (Seconds)',
+			name: 'toolCacheTtl',
+			type: 'number',
+			default: 300,
+			typeOptions: {
+				minValue: 0,
+			},
+			displayOptions: showWithCache,
+			description: 'How long a cached result is reused. Use 0 to keep results for the whole session.',
+		},
+		{
+			displayName: 'Per-Tool TTL',
+			name: 'toolCacheTtls',
+			type: 'fixedCollection',
+			typeOptions: {
+				multipleValues: true,
+			},
+			placeholder: 'Add TTL',
+			default: {},
+			displayOptions: showWithCache,
+			description: 'Cache TTLs for single tools that replace the one above',
+			options: [
+				{
+					displayName: 'TTL',
+					name: 'ttls',
+					values: [
+						{
+							displayName: 'Tool Name',
+							name: 'toolName',
+							type: 'string',
+							default: '',
+							description: 'Name of the connected tool',
+						},
+						{
+							displayName: 'TTL (Seconds)',
+							name: 'ttl',
+							type: 'number',
+							default: 300,
+							typeOptions: {
+								minValue: 0,
+							},
+							description: 'Use 0 to keep results for the whole session',
+						},
+					],
+				},
+			],
+		},
+		{
+			displayName: 'Tools Not Cached',
+			name: 'toolCacheExclude',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g. create_order, send_email',
+			displayOptions: showWithCache,
+			description: 'Comma-separated names of tools that always run, like tools that change data',
+		},
+	];
+}
+
+export function getToolCacheSettings(ctx: IExecuteFunctions, itemIndex: number): ToolCacheSettings {
+	if (!ctx.getNodeParameter('cacheToolResults', itemIndex, false)) {
+		return { enabled: false, ttl: 0, toolTtls: {}, excludedTools: [] };
+	}
+
+	const toolTtls: Record<string, number> = {};
+	const ttlParam = ctx.getNodeParameter('toolCacheTtls', itemIndex, {}) as IDataObject;
+	for (const entry of (ttlParam.ttls as IDataObject[]) || []) {
+		const toolName = ((entry.toolName as string) || '').trim().toLowerCase();
+		if (toolName) {
+			toolTtls[toolName] = (entry.ttl as number) ?? 0;
+		}
+	}
+
+	return {
+		enabled: true,
+		ttl: ctx.getNodeParameter('toolCacheTtl', itemIndex, 300) as number,
+		toolTtls,
+		excludedTools: (ctx.getNodeParameter('toolCacheExclude', itemIndex, '') as string)
+			.split(',')
+			.map((name) => name.trim().toLowerCase())
+			.filter((name) => name.length > 0),
+	};
+}
+
+// Object keys are sorted, so the same input always gives the same key
+function normalizeInput(value: any): any {
+	if (Array.isArray(value)) {
+		return value.map(normalizeInput);
+	}
+	if (isPlainObject(value)) {
+		const normalized: Record<string, any> = {};
+		for (const key of Object.keys(value).sort()) {
+			if (value[key] !== undefined) {
+				normalized[key] = normalizeInput(value[key]);
+			}
+		}
+		return normalized;
+	}
+	return typeof value === 'string' ? value.trim() : value;
+}
+
+function getCacheKey(toolName: string, input: Record<string, any>): string {
+	return `${toolName.toLowerCase()}:${JSON.stringify(normalizeInput(input ?? {}))}`;
+}
+
+// Tool results of the session, keyed by tool name and normalized input. Expired entries are
+// dropped when the cache is loaded.
+export class ToolResultCache {
+	private entries: Record<string, ToolCacheEntry> = {};
+
+	constructor(private settings: ToolCacheSettings, state: Record<string, any>) {
+		const stored = state?.[TOOL_CACHE_KEY];
+		if (!isPlainObject(stored)) {
+			return;
+		}
+		const now = Date.now();
+		for (const [key, entry] of Object.entries<ToolCacheEntry>(stored)) {
+			if (isPlainObject(entry) && (!entry.expires_at || Date.parse(entry.expires_at) > now)) {
+				this.entries[key] = entry;
+			}
+		}
+	}
+
+	isCacheable(toolName: string): boolean {
+		return !this.settings.excludedTools.includes(toolName.toLowerCase());
+	}
+
+	get(toolName: string, input: Record<string, any>): ToolCacheEntry | undefined {
+		return this.isCacheable(toolName) ? this.entries[getCacheKey(toolName, input)] : undefined;
+	}
+
+	set(toolName: string, input: Record<string, any>, result: any): void {
+		if (!this.isCacheable(toolName)) {
+			return;
+		}
+		const ttl = this.settings.toolTtls[toolName.toLowerCase()] ?? this.settings.ttl;
+		const now = Date.now();
+		this.entries[getCacheKey(toolName, input)] = {
+			tool_name: toolName,
+			input,
+			result,
+			cached_at: new Date(now).toISOString(),
+			expires_at: ttl > 0 ? new Date(now + ttl * 1000).toISOString() : null,
+		};
+	}
+
+	// Writes the cache to the state that is committed. It has to be part of every commit of the
+	// session, a state written without it drops the cache.
+	store(state: Record<string, any>, prevState: Record<string, any>, stateChangedProps: string[]): void {
+		state[TOOL_CACHE_KEY] = this.entries;
+		if (JSON.stringify(prevState?.[TOOL_CACHE_KEY] ?? {}) !== JSON.stringify(this.entries)
+			&& !stateChangedProps.includes(TOOL_CACHE_KEY)) {
+			stateChangedProps.push(TOOL_CACHE_KEY);
+		}
+	}
+}
+
+export function createToolCache(ctx: IExecuteFunctions, itemIndex: number, state: Record<string, any>): ToolResultCache | null {
+	const settings = getToolCacheSettings(ctx, itemIndex);
+	return settings.enabled ? new ToolResultCache(settings, state) : null;
+}
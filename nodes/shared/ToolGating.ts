@@ -0,0 +1,163 @@
+import type { IDataObject, IDisplayOptions, IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { isFieldMissing } from './SlotFilling';
+import { getNestedValue } from './StatePaths';
+import type { ToolInvocation } from './ToolRunner';
+
+export type ToolAvailabilityCondition = 'isSet' | 'isNotSet' | 'equals' | 'notEquals';
+
+export interface ToolAvailabilityRule {
+	toolName: string;
+	condition: ToolAvailabilityCondition;
+	statePath: string;
+	value: string;
+}
+
+export function toolAvailabilityProperty(displayOptions?: IDisplayOptions): INodeProperties {
+	return {
+		displayName: 'Tool Availability',
+		name: 'toolAvailability',
+		type: 'fixedCollection',
+		typeOptions: {
+			multipleValues: true,
+		},
+		placeholder: 'Add Rule',
+		default: {},
+		...(displayOptions ? { displayOptions } : {}),
+		description: 'Offer tools only in certain states, e.g. "create_order" only once "address" is set. A tool with several rules needs all of them to pass. Tools without rules are always offered.',
+		options: [
+			{
+				displayName: 'Rule',
+				name: 'rules',
+				values: [
+					{
+						displayName: 'Tool Name',
+						name: 'toolName',
+						type: 'string',
+						default: '',
+						description: 'Name of the connected tool',
+					},
+					{
+						displayName: 'Available When',
+						name: 'condition',
+						type: 'options',
+						options: [
+							{
+								name: 'Field Is Set',
+								value: 'isSet',
+							},
+							{
+								name: 'Field Is Not Set',
+								value: 'isNotSet',
+							},
+							{
+								name: 'Field Equals',
+								value: 'equals',
+							},
+							{
+								name: 'Field Does Not Equal',
+								value: 'notEquals',
+							},
+						],
+						default: 'isSet',
+					},
+					{
+						displayName: 'State Path',
+						name: 'statePath',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. address.city',
+						description: 'State field the rule checks. Use dots for nested fields. Empty strings and lists count as not set.',
+					},
+					{
+						displayName: 'Value',
+						name: 'value',
+						type: 'string',
+						default: '',
+						displayOptions: {
+							show: {
+								condition: ['equals', 'notEquals'],
+							},
+						},
+						description: 'Compared with the field as text. Objects and lists are compared as JSON.',
+					},
+				],
+			},
+		],
+	};
+}
+
+export function getToolAvailabilityRules(ctx: IExecuteFunctions, itemIndex: number): ToolAvailabilityRule[] {
+	const param = ctx.getNodeParameter('toolAvailability', itemIndex, {}) as IDataObject;
+	const rules = ((param.rules as IDataObject[]) || []).map((rule) => ({
+		toolName: ((rule.toolName as string) || '').trim(),
+		condition: (rule.condition as ToolAvailabilityCondition) || 'isSet',
+		statePath: ((rule.statePath as string) || '').trim(),
+		value: ((rule.value as string) ?? '').trim(),
+	}));
+
+	if (rules.some((rule) => !rule.toolName || !rule.statePath)) {
+		throw new NodeOperationError(ctx.getNode(), 'Every Tool Availability rule needs a Tool Name and a State Path', {
+			itemIndex,
+		});
+	}
+	return rules;
+}
+
+function valueAsText(value: any): string {
+	return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value ?? '');
+}
+
+function isRuleMet(rule: ToolAvailabilityRule, state: Record<string, any>): boolean {
+	const value = getNestedValue(state, rule.statePath);
+	switch (rule.condition) {
+		case 'isSet':
+			return !isFieldMissing(value);
+		case 'isNotSet':
+			return isFieldMissing(value);
+		case 'equals':
+			return !isFieldMissing(value) && valueAsText(value) === rule.value;
+		case 'notEquals':
+			return isFieldMissing(value) || valueAsText(value) !== rule.value;
+	}
+}
+
+function describeRule(rule: ToolAvailabilityRule): string {
+	switch (rule.condition) {
+		case 'isSet':
+			return `"${rule.statePath}" must be set`;
+		case 'isNotSet':
+			return `"${rule.statePath}" must not be set`;
+		case 'equals':
+			return `"${rule.statePath}" must be "${rule.value}"`;
+		case 'notEquals':
+			return `"${rule.statePath}" must not be "${rule.value}"`;
+	}
+}
+
+// The rules the tool fails in the given state, described for the refusal message
+export function getUnmetToolRules(toolName: string, rules: ToolAvailabilityRule[], state: Record<string, any>): string[] {
+	return rules
+		.filter((rule) => rule.toolName.toLowerCase() === toolName.toLowerCase() && !isRuleMet(rule, state))
+		.map(describeRule);
+}
+
+export function getAvailableTools(tools: any[], rules: ToolAvailabilityRule[], state: Record<string, any>): any[] {
+	if (rules.length === 0) {
+		return tools;
+	}
+	return tools.filter((tool) => getUnmetToolRules(tool.name, rules, state).length === 0);
+}
+
+// Marks the calls of tools that are not available in the given state. They are reported as
+// refused instead of being run.
+export function refuseUnavailableTools(
+	invocations: ToolInvocation[],
+	rules: ToolAvailabilityRule[],
+	state: Record<string, any>,
+): ToolInvocation[] {
+	return invocations.map((invocation) => {
+		const unmet = typeof invocation.tool_name === 'string' ? getUnmetToolRules(invocation.tool_name, rules, state) : [];
+		return unmet.length > 0 ? { ...invocation, refused_reason: `Tool is not available: ${unmet.join(', ')}` } : invocation;
+	});
+}
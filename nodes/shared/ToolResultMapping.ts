@@ -0,0 +1,224 @@
+import type { IDataObject, IDisplayOptions, IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { getNestedValue, isPlainObject, setNestedValue } from './StatePaths';
+import type { ToolInvocationResult } from './ToolRunner';
+
+export type ToolResultMergeMode = 'replace' | 'append' | 'mergeObject';
+
+export interface ToolResultMapping {
+	toolName: string;
+	statePath: string;
+	resultPath: string;
+	mergeMode: ToolResultMergeMode;
+}
+
+export function toolResultMappingProperty(displayOptions?: IDisplayOptions): INodeProperties {
+	return {
+		displayName: 'Tool Result Mapping',
+		name: 'toolResultMapping',
+		type: 'fixedCollection',
+		typeOptions: {
+			multipleValues: true,
+		},
+		placeholder: 'Add Mapping',
+		default: {},
+		...(displayOptions ? { displayOptions } : {}),
+		description: 'Where tool results are written in the state. Mapped tools ignore the state field the LLM picks for them, and the post-tool step keeps the mapped fields.',
+		options: [
+			{
+				displayName: 'Mapping',
+				name: 'mappings',
+				values: [
+					{
+						displayName: 'Tool Name',
+						name: 'toolName',
+						type: 'string',
+						default: '',
+						description: 'Name of the connected tool',
+					},
+					{
+						displayName: 'State Path',
+						name: 'statePath',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. weather.forecast',
+						description: 'State field the result is written to. Use dots for nested fields.',
+					},
+					{
+						displayName: 'Result Path',
+						name: 'resultPath',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. $.data.items[0].name',
+						description: 'JSON path of the part of the result to write, like $.data.items[0].name. Leave empty to write the whole result. Expressions are evaluated before the tool runs, so they cannot read the result.',
+					},
+					{
+						displayName: 'Merge Mode',
+						name: 'mergeMode',
+						type: 'options',
+						options: [
+							{
+								name: 'Replace',
+								value: 'replace',
+								description: 'Overwrite the field with the result',
+							},
+							{
+								name: 'Append',
+								value: 'append',
+								description: 'Add the result to the list in the field. List results are added item by item.',
+							},
+							{
+								name: 'Merge Object',
+								value: 'mergeObject',
+								description: 'Merge the properties of the result into the object in the field',
+							},
+						],
+						default: 'replace',
+					},
+				],
+			},
+		],
+	};
+}
+
+export function getToolResultMappings(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	stateModel: Record<string, any> | null,
+): ToolResultMapping[] {
+	const param = ctx.getNodeParameter('toolResultMapping', itemIndex, {}) as IDataObject;
+	const mappings = ((param.mappings as IDataObject[]) || []).map((mapping) => ({
+		toolName: ((mapping.toolName as string) || '').trim(),
+		statePath: ((mapping.statePath as string) || '').trim(),
+		resultPath: ((mapping.resultPath as string) || '').trim(),
+		mergeMode: (mapping.mergeMode as ToolResultMergeMode) || 'replace',
+	}));
+
+	for (const mapping of mappings) {
+		if (!mapping.toolName || !mapping.statePath) {
+			throw new NodeOperationError(ctx.getNode(), 'Every Tool Result Mapping needs a Tool Name and a State Path', {
+				itemIndex,
+			});
+		}
+		if (stateModel && getNestedValue(stateModel, mapping.statePath) === undefined) {
+			throw new NodeOperationError(
+				ctx.getNode(),
+				`The Tool Result Mapping of "${mapping.toolName}" points to "${mapping.statePath}", which is not in the State Model`,
+				{ itemIndex },
+			);
+		}
+	}
+	return mappings;
+}
+
+function parseToolResult(toolResult: any): any {
+	if (typeof toolResult !== 'string') {
+		return toolResult;
+	}
+	try {
+		return JSON.parse(toolResult);
+	} catch {
+		return toolResult;
+	}
+}
+
+// Reads a simple JSON path like "$.data.items[0].name", "data.items.0.name" or "$['full name']"
+function getResultValue(result: any, path: string): any {
+	const segments: string[] = [];
+	const pattern = /\[(\d+)\]|\[(['"])(.*?)\2\]|([^.[\]]+)/g;
+	for (const match of path.replace(/^\$\.?/, '').matchAll(pattern)) {
+		segments.push(match[1] ?? match[3] ?? match[4]);
+	}
+
+	let current = result;
+	for (const segment of segments) {
+		if (current === null || current === undefined || typeof current !== 'object') {
+			return undefined;
+		}
+		current = current[segment];
+	}
+	return current;
+}
+
+function mergeValue(current: any, value: any, mode: ToolResultMergeMode): any {
+	if (mode === 'append') {
+		const list = Array.isArray(current) ? current : current === undefined || current === null ? [] : [current];
+		return [...list, ...(Array.isArray(value) ? value : [value])];
+	}
+	if (mode === 'mergeObject' && isPlainObject(current) && isPlainObject(value)) {
+		return { ...current, ...value };
+	}
+	return value;
+}
+
+function getToolMappings(mappings: ToolResultMapping[], toolName: string): ToolResultMapping[] {
+	return mappings.filter((mapping) => mapping.toolName.toLowerCase() === toolName.toLowerCase());
+}
+
+function getMappedValue(parsedResult: unknown, mapping: ToolResultMapping): unknown {
+	return mapping.resultPath ? getResultValue(parsedResult, mapping.resultPath) : parsedResult;
+}
+
+function setStateValue(state: Record<string, any>, path: string, value: any, stateChangedProps: string[]): void {
+	if (JSON.stringify(getNestedValue(state, path)) === JSON.stringify(value)) {
+		return;
+	}
+	setNestedValue(state, path, value);
+	if (!stateChangedProps.includes(path)) {
+		stateChangedProps.push(path);
+	}
+}
+
+// Writes the successful results to the state in the requested order, so a later tool wins for
+// the same field. Configured mappings win over the state field the LLM picked; results of
+// unmapped tools without a valid state field are left to the post-tool step.
+export function applyToolResults(
+	results: ToolInvocationResult[],
+	mappings: ToolResultMapping[],
+	stateModel: Record<string, any>,
+	state: Record<string, any>,
+	stateChangedProps: string[],
+): void {
+	for (const { tool_name, state_field, result, error } of results) {
+		if (error !== undefined) {
+			continue;
+		}
+
+		const parsedResult = parseToolResult(result);
+		const toolMappings = getToolMappings(mappings, tool_name);
+		if (toolMappings.length > 0) {
+			for (const mapping of toolMappings) {
+				const value = getMappedValue(parsedResult, mapping);
+				if (value === undefined) {
+					continue;
+				}
+				const current = getNestedValue(state, mapping.statePath);
+				setStateValue(state, mapping.statePath, mergeValue(current, value, mapping.mergeMode), stateChangedProps);
+			}
+			continue;
+		}
+
+		if (state_field && getNestedValue(stateModel, state_field) !== undefined) {
+			setStateValue(state, state_field, parsedResult, stateChangedProps);
+		}
+	}
+}
+
+// State paths the mappings wrote for the successful results. The post-tool step keeps them, so
+// a mapping is not overwritten by the LLM.
+export function getMappedStatePaths(results: ToolInvocationResult[], mappings: ToolResultMapping[]): string[] {
+	const paths: string[] = [];
+	for (const { tool_name, result, error } of results) {
+		if (error !== undefined) {
+			continue;
+		}
+
+		const parsedResult = parseToolResult(result);
+		for (const mapping of getToolMappings(mappings, tool_name)) {
+			if (getMappedValue(parsedResult, mapping) !== undefined && !paths.includes(mapping.statePath)) {
+				paths.push(mapping.statePath);
+			}
+		}
+	}
+	return paths;
+}
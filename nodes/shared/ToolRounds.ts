@@ -0,0 +1,135 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import type { PromptStage } from './PromptOverrides';
+import { getChangedModelPaths, mergeStateWithModel } from './StateModel';
+import { getNestedValue, isPlainObject, setNestedValue } from './StatePaths';
+import type { JsonStageOptions } from './StructuredOutput';
+import type { PendingToolApprovals, ToolApprovalSettings } from './ToolApproval';
+import { createPendingToolApprovals, splitToolApprovals } from './ToolApproval';
+import type { ToolResultCache } from './ToolCache';
+import type { ToolAvailabilityRule } from './ToolGating';
+import { getAvailableTools, refuseUnavailableTools } from './ToolGating';
+import type { ToolResultMapping } from './ToolResultMapping';
+import { applyToolResults, getMappedStatePaths } from './ToolResultMapping';
+import type { ToolInvocation, ToolInvocationResult, ToolRound, ToolRunSettings } from './ToolRunner';
+import { runTools } from './ToolRunner';
+import { checkToolInputs, describeTools } from './ToolSchemas';
+
+export interface PostToolStepInput {
+	// Results of every tool call of the turn so far
+	results: ToolInvocationResult[];
+	// Whether rounds are left, so the step may ask for more tools
+	canRequestTools: boolean;
+	// "Available Tools" of the prompt, only set while more tools can be requested
+	availableTools?: string;
+}
+
+export interface PostToolStepResult {
+	state: Record<string, unknown>;
+	toolsToInvoke: ToolInvocation[];
+}
+
+export interface ToolRoundsOptions {
+	ctx: IExecuteFunctions;
+	itemIndex: number;
+	// Checks and corrects the tool inputs
+	llm: unknown;
+	inputCorrectionStage: PromptStage;
+	jsonStageOptions: Omit<JsonStageOptions, 'stage'>;
+	// Message of the turn
+	message: string;
+	tools: unknown[];
+	stateModel: Record<string, unknown>;
+	prevState: Record<string, unknown>;
+	// State of the turn, updated in place with the tool results and the post-tool steps
+	state: Record<string, unknown>;
+	stateChangedProps: string[];
+	runSettings: ToolRunSettings;
+	availabilityRules: ToolAvailabilityRule[];
+	mappings: ToolResultMapping[];
+	approvalSettings: ToolApprovalSettings;
+	cache: ToolResultCache | null;
+	// The paused turn a decision resumes, its round continues
+	resumed: PendingToolApprovals | null;
+	// The node's post-tool prompt. A failed step keeps the state and ends the rounds.
+	postToolStep: (input: PostToolStepInput) => Promise<PostToolStepResult>;
+}
+
+export interface ToolRoundsResult {
+	results: ToolInvocationResult[];
+	rounds: ToolRound[];
+	// Set when the turn paused for the approval of tool calls
+	approvalRequest: PendingToolApprovals | null;
+}
+
+// Every round gates, checks and runs the requested tools and writes their results to the state,
+// then the post-tool step updates the state and may request more tools while rounds are left.
+// Results keep the requested order. Calls that need approval pause the turn before the post-tool step.
+export async function runToolRounds(
+	toolsToInvoke: ToolInvocation[],
+	options: ToolRoundsOptions,
+): Promise<ToolRoundsResult> {
+	const { ctx, itemIndex, stateModel, state, stateChangedProps, runSettings, availabilityRules } = options;
+	// Tool availability rules are checked against the state of the turn so far
+	const getTurnState = () => ({ ...options.prevState, ...state });
+	const getTurnTools = () => getAvailableTools(options.tools, availabilityRules, getTurnState());
+
+	// A resumed turn continues with the round it was paused in
+	const results: ToolInvocationResult[] = [...(options.resumed?.completed ?? [])];
+	const rounds: ToolRound[] = [];
+
+	for (let round = options.resumed?.round ?? 1; toolsToInvoke.length > 0; round++) {
+		toolsToInvoke = refuseUnavailableTools(toolsToInvoke, availabilityRules, getTurnState());
+		toolsToInvoke = await checkToolInputs(ctx, itemIndex, options.llm, options.inputCorrectionStage, toolsToInvoke, getTurnTools(), options.message, options.jsonStageOptions);
+		const { runnable, awaiting } = splitToolApprovals(toolsToInvoke, options.approvalSettings);
+		const roundResults = await runTools(runnable, options.tools, runSettings, options.cache);
+		applyToolResults(roundResults, options.mappings, stateModel, state, stateChangedProps);
+		results.push(...roundResults);
+		rounds.push({ round, tools_to_invoke: toolsToInvoke, results: roundResults });
+		toolsToInvoke = [];
+
+		// The post-tool step runs once the waiting calls are decided
+		if (awaiting.length > 0) {
+			return {
+				results,
+				rounds,
+				approvalRequest: createPendingToolApprovals(options.message, round, awaiting, results),
+			};
+		}
+
+		// Failed and rejected calls still get a post-tool step
+		if (results.length === 0) {
+			break;
+		}
+
+		const canRequestTools = round < runSettings.maxRounds;
+		let step: PostToolStepResult;
+		try {
+			step = await options.postToolStep({
+				results,
+				canRequestTools,
+				...(canRequestTools ? { availableTools: describeTools(getTurnTools()) } : {}),
+			});
+		} catch {
+			// Continue with the current state without post-tool updates
+			break;
+		}
+
+		if (isPlainObject(step.state)) {
+			// Only fields of the state model are taken, nested fields are reported with their full path
+			const mergedState = mergeStateWithModel(step.state, stateModel, state);
+			// Mapped tool results win over the post-tool step
+			for (const path of getMappedStatePaths(results, options.mappings)) {
+				setNestedValue(mergedState, path, getNestedValue(state, path));
+			}
+			for (const path of getChangedModelPaths(stateModel, state, mergedState)) {
+				if (!stateChangedProps.includes(path)) {
+					stateChangedProps.push(path);
+				}
+			}
+			Object.assign(state, mergedState);
+		}
+		toolsToInvoke = canRequestTools ? step.toolsToInvoke : [];
+	}
+
+	return { results, rounds, approvalRequest: null };
+}
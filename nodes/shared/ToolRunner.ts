@@ -0,0 +1,280 @@
+import type { IDisplayOptions, IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+import { sleep } from 'n8n-workflow';
+import { isPlainObject } from './StatePaths';
+import type { ToolResultCache } from './ToolCache';
+
+export interface ToolInvocation {
+	tool_name: string;
+	reason?: string;
+	state_field?: string;
+	input_params?: Record<string, any>;
+	// Set by checkToolInputs for inputs that do not match the tool's schema, and by
+	// refuseUnavailableTools for tools the state does not allow. Such calls are not run.
+	input_errors?: string[];
+	refused_reason?: string;
+	// Set for calls a reviewer approved, see ToolApproval
+	approved?: boolean;
+}
+
+export interface ToolInvocationResult {
+	tool_name: string;
+	state_field?: string;
+	reason?: string;
+	input: Record<string, any>;
+	result?: any;
+	error?: string;
+	duration_ms: number;
+	timed_out: boolean;
+	attempts: number;
+	// Set when the result was taken from the tool cache instead of calling the tool
+	cached?: boolean;
+}
+
+export interface ToolRound {
+	round: number;
+	tools_to_invoke: ToolInvocation[];
+	results: ToolInvocationResult[];
+}
+
+export interface ToolRunSettings {
+	maxRounds: number;
+	concurrency: number;
+	timeoutMs: number;
+	maxRetries: number;
+	retryDelayMs: number;
+}
+
+export function toolRunnerProperties(displayOptions?: IDisplayOptions): INodeProperties[] {
+	const shown = displayOptions ? { displayOptions } : {};
+	return [
+		{
+			displayName: 'Max Tool Rounds',
+			name: 'maxToolRounds',
+			type: 'number',
+			default: 1,
+			typeOptions: {
+				minValue: 1,
+			},
+			...shown,
+			description: 'How often tools can be planned in one turn. Above 1, the post-tool step can ask for more tools based on the results so far, e.g. to fetch the orders of a customer ID a first tool looked up.',
+		},
+		{
+			displayName: 'Tool Concurrency',
+			name: 'toolConcurrency',
+			type: 'number',
+			default: 3,
+			typeOptions: {
+				minValue: 1,
+			},
+			...shown,
+			description: 'How many tools run at the same time when the LLM asks for several',
+		},
+		{
+			displayName: 'Tool Timeout (Seconds)',
+			name: 'toolTimeout',
+			type: 'number',
+			default: 0,
+			typeOptions: {
+				minValue: 0,
+			},
+			...shown,
+			description: 'A tool call that takes longer is recorded as timed out. The default 0 waits as long as the tool runs.',
+		},
+		{
+			displayName: 'Tool Retries',
+			name: 'toolMaxRetries',
+			type: 'number',
+			default: 0,
+			typeOptions: {
+				minValue: 0,
+			},
+			...shown,
+			description: 'How often a failed or timed out tool call is tried again',
+		},
+		{
+			displayName: 'Tool Retry Delay (Ms)',
+			name: 'toolRetryDelay',
+			type: 'number',
+			default: 1000,
+			typeOptions: {
+				minValue: 0,
+			},
+			displayOptions: {
+				...displayOptions,
+				hide: {
+					...displayOptions?.hide,
+					toolMaxRetries: [0],
+				},
+			},
+			description: 'Wait before the first retry. The wait doubles with every further retry.',
+		},
+	];
+}
+
+export function getToolRunSettings(ctx: IExecuteFunctions, itemIndex: number): ToolRunSettings {
+	return {
+		maxRounds: Math.max(1, ctx.getNodeParameter('maxToolRounds', itemIndex, 1) as number),
+		concurrency: Math.max(1, ctx.getNodeParameter('toolConcurrency', itemIndex, 3) as number),
+		timeoutMs: (ctx.getNodeParameter('toolTimeout', itemIndex, 0) as number) * 1000,
+		maxRetries: ctx.getNodeParameter('toolMaxRetries', itemIndex, 0) as number,
+		retryDelayMs: ctx.getNodeParameter('toolRetryDelay', itemIndex, 1000) as number,
+	};
+}
+
+// Added to the post-tool prompts while more tool rounds are left. Braces are escaped for ChatPromptTemplate.
+export const TOOL_ROUND_INSTRUCTIONS = `Available Tools:
+{availableTools}
+
+More tools can be requested. If the tool results show that another tool is needed (e.g. a lookup returned an ID another tool takes), list it in "tools_to_invoke". Otherwise return an empty "tools_to_invoke" list.
+Return the state in "state" next to "tools_to_invoke":
+{{"state": {{ /* state model fields */ }}, "tools_to_invoke": [{{"tool_name": "Name", "reason": "Why", "state_field": "field", "input_params": {{}}}}]}}`;
+
+export function getRequestedTools(result: Record<string, any>): ToolInvocation[] {
+	return Array.isArray(result?.tools_to_invoke) ? result.tools_to_invoke : [];
+}
+
+// While rounds are left, the post-tool steps that return a bare state return
+// { state, tools_to_invoke } instead. An overridden prompt may still return the bare state,
+// which ends the rounds.
+export function readPostToolResult(
+	result: Record<string, any>,
+	canRequestTools: boolean,
+): { state: Record<string, any>; toolsToInvoke: ToolInvocation[] } {
+	if (canRequestTools && isPlainObject(result.state) && 'tools_to_invoke' in result) {
+		return { state: result.state, toolsToInvoke: getRequestedTools(result) };
+	}
+	return { state: result, toolsToInvoke: [] };
+}
+
+export function findTool(tools: any[], toolName: string): any | undefined {
+	if (typeof toolName !== 'string') {
+		return undefined;
+	}
+	return tools.find((tool) => tool.name === toolName || tool.name.toLowerCase() === toolName.toLowerCase());
+}
+
+class ToolTimeoutError extends Error {
+	constructor(timeoutMs: number) {
+		super(`Tool timed out after ${timeoutMs / 1000} seconds`);
+		this.name = 'ToolTimeoutError';
+	}
+}
+
+// The tool itself cannot be cancelled, a timed out call keeps running in the background and its
+// result is ignored
+async function invokeWithTimeout(tool: any, input: Record<string, any>, timeoutMs: number): Promise<any> {
+	if (timeoutMs <= 0) {
+		return await tool.invoke(input);
+	}
+	// Aborted once the race is decided, so the timer does not outlive the call
+	const timer = new AbortController();
+	try {
+		return await Promise.race([
+			tool.invoke(input),
+			sleep(timeoutMs, timer.signal).then(() => {
+				throw new ToolTimeoutError(timeoutMs);
+			}),
+		]);
+	} finally {
+		timer.abort();
+	}
+}
+
+async function runTool(
+	tool: any,
+	invocation: ToolInvocation,
+	settings: ToolRunSettings,
+	cache: ToolResultCache | null,
+): Promise<ToolInvocationResult> {
+	const input = invocation.input_params || {};
+	const started = Date.now();
+	let attempts = 0;
+
+	const rejection = invocation.refused_reason
+		?? (invocation.input_errors && invocation.input_errors.length > 0
+			? `Invalid input: ${invocation.input_errors.join('; ')}`
+			: undefined);
+	if (rejection !== undefined || !tool) {
+		return {
+			tool_name: invocation.tool_name,
+			state_field: invocation.state_field,
+			reason: invocation.reason,
+			input,
+			error: rejection ?? `Unknown tool "${invocation.tool_name}"`,
+			duration_ms: 0,
+			timed_out: false,
+			attempts,
+		};
+	}
+
+	const cached = cache?.get(tool.name, input);
+	if (cached) {
+		return {
+			tool_name: invocation.tool_name,
+			state_field: invocation.state_field,
+			reason: invocation.reason,
+			input,
+			result: cached.result,
+			duration_ms: 0,
+			timed_out: false,
+			attempts,
+			cached: true,
+		};
+	}
+
+	for (;;) {
+		attempts++;
+		try {
+			const result = await invokeWithTimeout(tool, input, settings.timeoutMs);
+			cache?.set(tool.name, input, result);
+			return {
+				tool_name: invocation.tool_name,
+				state_field: invocation.state_field,
+				reason: invocation.reason,
+				input,
+				result,
+				duration_ms: Date.now() - started,
+				timed_out: false,
+				attempts,
+			};
+		} catch (error) {
+			if (attempts > settings.maxRetries) {
+				return {
+					tool_name: invocation.tool_name,
+					state_field: invocation.state_field,
+					reason: invocation.reason,
+					input,
+					error: (error as Error).message,
+					duration_ms: Date.now() - started,
+					timed_out: error instanceof ToolTimeoutError,
+					attempts,
+				};
+			}
+			await sleep(settings.retryDelayMs * 2 ** (attempts - 1));
+		}
+	}
+}
+
+// Runs the requested tools with at most settings.concurrency calls at a time. Invocations of
+// unknown tools fail without running, the results keep the requested order. With a cache, cached
+// results are used instead of calling the tool.
+export async function runTools(
+	invocations: ToolInvocation[],
+	tools: any[],
+	settings: ToolRunSettings,
+	cache: ToolResultCache | null = null,
+): Promise<ToolInvocationResult[]> {
+	const runnable = invocations.map((invocation) => ({ invocation, tool: findTool(tools, invocation.tool_name) }));
+	const results: ToolInvocationResult[] = new Array(runnable.length);
+
+	let next = 0;
+	const worker = async () => {
+		while (next < runnable.length) {
+			const index = next++;
+			results[index] = await runTool(runnable[index].tool, runnable[index].invocation, settings, cache);
+		}
+	};
+	await Promise.all(Array.from({ length: Math.min(settings.concurrency, runnable.length) }, worker));
+
+	return results;
+}
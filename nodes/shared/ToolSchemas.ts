@@ -0,0 +1,175 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { convertToOpenAITool } from '@langchain/core/utils/function_calling';
+import { getStagePrompt } from './PromptOverrides';
+import type { PromptStage } from './PromptOverrides';
+import { isPlainObject } from './StatePaths';
+import { validateSchemaValue } from './StateSchema';
+import type { JsonSchema } from './StateSchema';
+import { invokeJsonStage, toolInvocationsSchema } from './StructuredOutput';
+import type { JsonStageOptions } from './StructuredOutput';
+import { findTool } from './ToolRunner';
+import type { ToolInvocation } from './ToolRunner';
+
+const isZodSchema = (schema: any): boolean => typeof schema?.safeParse === 'function';
+
+// JSON Schema of the tool input. Tools declare it as a zod schema, plain JSON Schemas are used as they are.
+export function getToolParameterSchema(tool: any): JsonSchema | null {
+	if (isZodSchema(tool?.schema)) {
+		try {
+			const parameters: JsonSchema = { ...convertToOpenAITool(tool).function.parameters };
+			delete parameters.$schema;
+			delete parameters.additionalProperties;
+			return parameters;
+		} catch {
+			return null;
+		}
+	}
+	return isPlainObject(tool?.schema) ? tool.schema : null;
+}
+
+// The "Available Tools" list of the prompts, with the parameters every tool takes
+export function describeTools(tools: any[]): string {
+	if (tools.length === 0) {
+		return 'No tools available';
+	}
+	return tools
+		.map((tool) => {
+			const parameters = getToolParameterSchema(tool);
+			const description = `- ${tool.name}: ${tool.description || 'No description available'}`;
+			return parameters ? `${description}\n  Parameters: ${JSON.stringify(parameters)}` : description;
+		})
+		.join('\n');
+}
+
+// Checks the input of a tool call against the tool's schema. JSON Schema inputs are coerced
+// where that is safe, the coerced input is returned with the errors.
+export function validateToolInput(tool: any, input: any): { input: any; errors: string[] } {
+	if (isZodSchema(tool?.schema)) {
+		const result = tool.schema.safeParse(input);
+		return {
+			input,
+			errors: result.success
+				? []
+				: result.error.issues.map((issue: any) => `${issue.path.length > 0 ? issue.path.join('.') : 'input'}: ${issue.message}`),
+		};
+	}
+
+	const schema = getToolParameterSchema(tool);
+	if (!schema) {
+		return { input, errors: [] };
+	}
+	const validated = validateSchemaValue(input, schema);
+	if (validated.error) {
+		return { input, errors: [validated.error] };
+	}
+	const missing = Array.isArray(schema.required) && isPlainObject(validated.value)
+		? schema.required.filter((key: string) => validated.value[key] === undefined || validated.value[key] === null)
+		: [];
+	return { input: validated.value, errors: missing.map((key: string) => `${key}: Required`) };
+}
+
+function validateInvocation(invocation: ToolInvocation, tools: any[]): ToolInvocation {
+	const call: ToolInvocation = { ...invocation };
+	delete call.input_errors;
+	if (call.refused_reason !== undefined) {
+		return call;
+	}
+	const tool = findTool(tools, call.tool_name);
+	if (!tool) {
+		return { ...call, input_errors: [`Unknown tool "${call.tool_name}"`] };
+	}
+	const { input, errors } = validateToolInput(tool, call.input_params ?? {});
+	return {
+		...call,
+		input_params: input,
+		...(errors.length > 0 ? { input_errors: errors } : {}),
+	};
+}
+
+const hasInputErrors = (invocation: ToolInvocation) => (invocation.input_errors?.length ?? 0) > 0;
+
+// Pairs every invalid call with its correction. Corrections are matched by tool name first, the
+// remaining ones are taken in order as corrections of calls with a wrong tool name. Calls the
+// correction left out are kept as they are, corrections without a call are returned as extra calls.
+function matchCorrections(
+	invalid: ToolInvocation[],
+	corrections: ToolInvocation[],
+): { replacements: ToolInvocation[]; extra: ToolInvocation[] } {
+	const sameName = (a: ToolInvocation, b: ToolInvocation) =>
+		typeof a.tool_name === 'string' && typeof b.tool_name === 'string' && a.tool_name.toLowerCase() === b.tool_name.toLowerCase();
+	const unmatched = [...corrections];
+	const matched = invalid.map((call) => {
+		const index = unmatched.findIndex((correction) => sameName(call, correction));
+		return index === -1 ? undefined : unmatched.splice(index, 1)[0];
+	});
+	const replacements = matched.map((correction, index) => correction ?? unmatched.shift() ?? invalid[index]);
+	return { replacements, extra: unmatched };
+}
+
+// Validates the planned tool calls before they run. Invalid calls go back to the LLM once to be
+// corrected, calls that are still invalid or were left out of the correction keep their
+// "input_errors" and are not run.
+export async function checkToolInputs(
+	ctx: IExecuteFunctions,
+	itemIndex: number,
+	llm: any,
+	stage: PromptStage,
+	invocations: ToolInvocation[],
+	tools: any[],
+	message: string,
+	options: Omit<JsonStageOptions, 'stage'>,
+): Promise<ToolInvocation[]> {
+	const checked = invocations.map((invocation) => validateInvocation(invocation, tools));
+	const invalid = checked.filter(hasInputErrors);
+	if (invalid.length === 0) {
+		return checked;
+	}
+
+	const correctionInput = {
+		invalidCalls: JSON.stringify(invalid, null, 2),
+		toolSchemas: describeTools(tools),
+		message,
+	};
+	const correctionPrompt = getStagePrompt(ctx, itemIndex, stage, {
+		system: `
+Some planned tool calls have inputs that do not match the parameters of the tool.
+
+User Message:
+{message}
+
+Available Tools:
+{toolSchemas}
+
+Invalid Tool Calls (with the errors in "input_errors"):
+{invalidCalls}
+
+Fix the "input_params" of every invalid call so they match the parameters of its tool. Only use values from the user message and the calls, never make values up. Leave out calls that cannot be fixed.
+Return ONLY a JSON object with the corrected calls:
+{{"tools_to_invoke": [{{"tool_name": "Name", "reason": "Why", "state_field": "field", "input_params": {{}}}}]}}
+`,
+	}, correctionInput);
+
+	let replacements: ToolInvocation[] = invalid;
+	let extra: ToolInvocation[] = [];
+	try {
+		const result = await invokeJsonStage(llm, correctionPrompt, correctionInput, {
+			type: 'object',
+			properties: { tools_to_invoke: toolInvocationsSchema },
+			required: ['tools_to_invoke'],
+		}, { ...options, stage: 'tool_input_correction' });
+		if (Array.isArray(result.tools_to_invoke)) {
+			const corrections = result.tools_to_invoke.map((invocation: ToolInvocation) => validateInvocation(invocation, tools));
+			({ replacements, extra } = matchCorrections(invalid, corrections));
+		}
+	} catch (error) {
+		if (error instanceof NodeOperationError) {
+			throw new NodeOperationError(ctx.getNode(), error, { itemIndex });
+		}
+		// The invalid calls are reported as failed tool results
+	}
+
+	// Corrected calls take the place of the invalid ones, so the round keeps the requested order
+	let next = 0;
+	return [...checked.map((invocation) => (hasInputErrors(invocation) ? replacements[next++] : invocation)), ...extra];
+}
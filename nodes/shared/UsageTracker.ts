@@ -0,0 +1,155 @@
+import type { IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { isPlainObject } from './StatePaths';
+
+export interface ModelPrice {
+	prompt: number;
+	completion: number;
+}
+
+export type ModelPriceTable = Record<string, ModelPrice>;
+
+export interface LlmCallUsage {
+	stage: string;
+	model: string | null;
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+	estimatedCost: number | null;
+}
+
+export interface UsageSummary {
+	calls: LlmCallUsage[];
+	totals: {
+		calls: number;
+		promptTokens: number;
+		completionTokens: number;
+		totalTokens: number;
+		estimatedCost: number | null;
+	};
+}
+
+export const usageProperties: INodeProperties[] = [
+	{
+		displayName: 'Model Prices',
+		name: 'modelPrices',
+		type: 'json',
+		default: '{}',
+		placeholder: '{ "gpt-4o-mini": { "prompt": 0.15, "completion": 0.6 } }',
+		description: 'Optional prices in USD per 1M tokens by model name, used for the "estimatedCost" of the usage output. A key also matches model names that start with it (e.g. "gpt-4o" matches "gpt-4o-2024-08-06").',
+	},
+];
+
+export function getModelPriceTable(ctx: IExecuteFunctions, itemIndex: number): ModelPriceTable {
+	const param = ctx.getNodeParameter('modelPrices', itemIndex, '{}');
+	let table: any = param;
+	if (typeof param === 'string') {
+		if (!param.trim()) {
+			return {};
+		}
+		try {
+			table = JSON.parse(param);
+		} catch (error) {
+			throw new NodeOperationError(ctx.getNode(), `Invalid Model Prices JSON: ${error.message}`, {
+				itemIndex,
+			});
+		}
+	}
+	if (!isPlainObject(table)) {
+		throw new NodeOperationError(ctx.getNode(), 'Model Prices must be a JSON object', { itemIndex });
+	}
+	return table as ModelPriceTable;
+}
+
+function getModelName(llm: any): string | null {
+	const name = llm?.modelName ?? llm?.model ?? llm?.lc_kwargs?.model ?? llm?.lc_kwargs?.modelName;
+	return typeof name === 'string' ? name : null;
+}
+
+// Newer models report usage_metadata on the message, older integrations in llmOutput
+// (tokenUsage for OpenAI, usage for Anthropic)
+function readTokenUsage(output: any): { promptTokens: number; completionTokens: number } {
+	const message = output?.generations?.[0]?.[0]?.message;
+	const usageMetadata = message?.usage_metadata;
+	if (usageMetadata) {
+		return { promptTokens: usageMetadata.input_tokens ?? 0, completionTokens: usageMetadata.output_tokens ?? 0 };
+	}
+
+	const tokenUsage = output?.llmOutput?.tokenUsage ?? output?.llmOutput?.estimatedTokenUsage
+		?? message?.response_metadata?.tokenUsage;
+	if (tokenUsage) {
+		return { promptTokens: tokenUsage.promptTokens ?? 0, completionTokens: tokenUsage.completionTokens ?? 0 };
+	}
+
+	const usage = output?.llmOutput?.usage ?? message?.response_metadata?.usage;
+	if (usage) {
+		return {
+			promptTokens: usage.input_tokens ?? usage.prompt_tokens ?? 0,
+			completionTokens: usage.output_tokens ?? usage.completion_tokens ?? 0,
+		};
+	}
+
+	return { promptTokens: 0, completionTokens: 0 };
+}
+
+function findModelPrice(prices: ModelPriceTable, model: string | null): ModelPrice | null {
+	if (!model) {
+		return null;
+	}
+	if (prices[model]) {
+		return prices[model];
+	}
+	const prefix = Object.keys(prices)
+		.filter((key) => model.startsWith(key))
+		.sort((a, b) => b.length - a.length)[0];
+	return prefix ? prices[prefix] : null;
+}
+
+// Collects the token usage of every LLM call of an execution. Pass callbacks(stage, llm) as the
+// callbacks of an invoke so each call (also the ones inside an agent) is recorded with its stage.
+export class UsageTracker {
+	private calls: LlmCallUsage[] = [];
+
+	constructor(private prices: ModelPriceTable = {}) {}
+
+	callbacks(stage: string, llm: any): any[] {
+		return [
+			{
+				handleLLMEnd: (output: any) => {
+					this.record(stage, getModelName(llm), output);
+				},
+			},
+		];
+	}
+
+	private record(stage: string, model: string | null, output: any): void {
+		const { promptTokens, completionTokens } = readTokenUsage(output);
+		const price = findModelPrice(this.prices, model);
+		this.calls.push({
+			stage,
+			model,
+			promptTokens,
+			completionTokens,
+			totalTokens: promptTokens + completionTokens,
+			estimatedCost: price
+				? (promptTokens * (price.prompt ?? 0) + completionTokens * (price.completion ?? 0)) / 1_000_000
+				: null,
+		});
+	}
+
+	getSummary(): UsageSummary {
+		const pricedCalls = this.calls.filter((call) => call.estimatedCost !== null);
+		return {
+			calls: this.calls,
+			totals: {
+				calls: this.calls.length,
+				promptTokens: this.calls.reduce((sum, call) => sum + call.promptTokens, 0),
+				completionTokens: this.calls.reduce((sum, call) => sum + call.completionTokens, 0),
+				totalTokens: this.calls.reduce((sum, call) => sum + call.totalTokens, 0),
+				estimatedCost: pricedCalls.length > 0
+					? pricedCalls.reduce((sum, call) => sum + (call.estimatedCost as number), 0)
+					: null,
+			},
+		};
+	}
+}